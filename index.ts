@@ -1,30 +1,134 @@
 #!/usr/bin/env node
 
+import { writeFileSync } from "node:fs";
 import { parseArgs } from "node:util";
 import {
   getConfigOrExit,
   promptForConfig,
-  loadConfig,
+  loadSavedConfig,
+  resolveConfig,
   deleteConfig,
   getConfigPath,
-  configExists,
+  getConfigPathSource,
+  getEnvVariable,
+  getMissingFields,
+  hasConfigOverrides,
+  saveConfigFromFlags,
+  setConfigFile,
+  setConfigOverrides,
+  CONFIG_FIELDS,
+  type ConfigSource,
+  copyProfile,
+  getActiveProfile,
+  isValidProfileName,
+  listProfiles,
+  removeProfile,
+  selectProfile,
+  setDefaultProfile,
+  type Config,
 } from "./lib/config.js";
-import { fetchCurrentUser, fetchTimeEntries, type TimeEntry } from "./lib/redmine.js";
-import { fetchClockedHours } from "./lib/mssql.js";
 import {
+  getCacheDir,
+  getCacheStatus,
+  loadCurrentUser,
+  mergeSourceStatus,
+  type CacheOptions,
+  type CurrentUser,
+  type SourceStatus,
+} from "./lib/cache.js";
+import { GERMAN_STATES } from "./lib/holidays.js";
+import { createWorkCalendar, formatSchedule } from "./lib/schedule.js";
+import { loadStatsData } from "./lib/stats.js";
+import { checkCompliance, resolveComplianceRules } from "./lib/compliance.js";
+import { accumulateBalance, loadBalance } from "./lib/balance.js";
+import { buildReport, parseReportDimensions, REPORT_DIMENSIONS } from "./lib/report.js";
+import { lintEntries, resolveLintSettings, type LintFinding } from "./lib/lint.js";
+import { detectAnomalies, resolveAnomalySettings, type Anomaly } from "./lib/anomalies.js";
+import { groupDaysByPeriod, PERIOD_UNITS, type PeriodUnit } from "./lib/periods.js";
+import { findTeamMember, getMemberConfig, getMemberUser, loadTeamStats } from "./lib/team.js";
+import {
+  compareSummaries,
+  COMPARE_MODES,
+  getComparisonRange,
+  type Comparison,
+  type CompareMode,
+} from "./lib/compare.js";
+import {
+  addDays,
   getDateRange,
   getYearToDateRange,
   getYearRange,
+  getThisWeekRange,
+  getLastWeekRange,
+  getThisMonthRange,
+  getLastMonthRange,
+  getThisQuarterRange,
+  getLastQuarterRange,
+  parseRangeSpec,
+  parseDate,
+  parseDaySpec,
+  parseHours,
+  resolveFromToRange,
+  formatDate,
   formatHours,
-  groupByDate,
-  calculateNetBookedHours,
-  calculateGrossBookedHours,
+  getDatesInRange,
 } from "./lib/utils.js";
+import {
+  createTimeEntry,
+  deleteTimeEntry,
+  fetchIssue,
+  fetchTimeEntry,
+  fetchTimeEntryActivities,
+  resolveActivity,
+  updateTimeEntry,
+  type Issue,
+  type TimeEntry,
+  type TimeEntryActivity,
+  type TimeEntryChanges,
+} from "./lib/redmine.js";
+import { confirm } from "./lib/prompt.js";
 import { colors as c } from "./lib/colors.js";
 import { VERSION } from "./lib/version.js";
-import type { DayStats, SummaryData, StatsData } from "./lib/output/types.js";
-import { renderDayHeader, renderEntries, renderSummary } from "./lib/output/human.js";
-import { render as renderJson } from "./lib/output/json.js";
+import type { DayStats, StatsData } from "./lib/output/types.js";
+import {
+  renderBalance,
+  renderCompliance,
+  renderDayHeader,
+  renderAnomalies,
+  renderEntries,
+  renderLint,
+  renderLintWarnings,
+  renderPeriods,
+  renderReport,
+  renderTeam,
+  renderEntryChanges,
+  renderSessions,
+  renderSourceNotice,
+  renderSummary,
+  getTimelineWindow,
+} from "./lib/output/human.js";
+import {
+  render as renderJson,
+  renderBalance as renderBalanceJson,
+  renderCompliance as renderComplianceJson,
+  renderLint as renderLintJson,
+  renderPeriods as renderPeriodsJson,
+  renderTeam as renderTeamJson,
+  renderReport as renderReportJson,
+} from "./lib/output/json.js";
+import {
+  render as renderCsv,
+  renderReport as renderReportCsv,
+  renderTeam as renderTeamCsv,
+  type CsvOptions,
+} from "./lib/output/csv.js";
+import {
+  render as renderMarkdown,
+  renderCompact as renderMarkdownCompact,
+} from "./lib/output/markdown.js";
+import { render as renderHtml } from "./lib/output/html.js";
+import { MAX_BAR_CHART_DAYS, renderDayBars, renderHeatmap } from "./lib/output/chart.js";
+import { render as renderIcs, BOOKING_MODES, type BookingMode } from "./lib/output/ics.js";
 
 // ============================================================================
 // Unified Command & Modifier Registry
@@ -38,25 +142,153 @@ interface ModifierDef {
   description: string;
 }
 
+interface OptionDef {
+  name: string;
+  value: string;
+  description: string;
+}
+
 interface CommandDef {
   name: string;
   short?: string;
   aliases?: string[];
   description: string;
   type: CommandType;
-  handler: ((ctx: RunContext) => void | Promise<void>) | number | (() => { from: string; to: string });
+  handler:
+    | ((ctx: RunContext) => void | Promise<void>)
+    | number
+    | (() => { from: string; to: string });
   exampleArg: string;
+  // Action takes a range as positional spec or via --from/--to
+  acceptsRange?: boolean;
 }
 
 interface RunContext {
   brief: boolean;
   json: boolean;
+  csv: boolean;
+  tsv: boolean;
+  markdown: boolean;
+  compact: boolean;
+  noCache: boolean;
+  refresh: boolean;
+  offline: boolean;
+  sessions: boolean;
+  warnings: boolean;
+  chart: boolean;
+  from?: string;
+  to?: string;
+  date?: string;
+  activity?: string;
+  hours?: string;
+  comment?: string;
+  issue?: string;
+  by?: string;
+  delimiter?: string;
+  decimal?: string;
+  html?: string;
+  groupBy?: string;
+  compare?: string;
+  profile?: string;
+  configFile?: string;
+  member?: string;
+  bookings?: string;
+  yes: boolean;
+  dryRun: boolean;
+  strict: boolean;
+  // Positional arguments following an action command
+  args: string[];
 }
 
+type ParsedValues = Record<string, string | boolean | undefined>;
+
 // Modifier flags that can combine with any range command
 const MODIFIERS: readonly ModifierDef[] = [
   { name: "brief", short: "b", description: "Show concise output (daily totals only)" },
   { name: "json", short: "j", description: "Output results as JSON" },
+  {
+    name: "csv",
+    description: "Output results as CSV (per entry, or per day with --brief)",
+  },
+  { name: "tsv", description: "Output results as tab-separated values" },
+  { name: "markdown", description: "Output results as Markdown tables (for wikis and chat)" },
+  { name: "compact", description: "With --markdown, print a one-paragraph summary only" },
+  { name: "warnings", description: "Show booking lint warnings below each day's entries" },
+  {
+    name: "chart",
+    description: "Show a bar chart per day, or a calendar heatmap for ranges over a month",
+  },
+  {
+    name: "sessions",
+    short: "s",
+    description: "Show clock-in/out intervals, breaks and a timeline per day",
+  },
+  { name: "no-cache", description: "Fetch everything from the servers, bypassing the local cache" },
+  { name: "refresh", description: "Re-download the whole range and update the local cache" },
+  { name: "offline", description: "Render the report from cached data only" },
+  { name: "yes", description: "Apply edits and deletions without asking for confirmation" },
+  {
+    name: "dry-run",
+    description: "Show what an edit or deletion would change, without applying it",
+  },
+  { name: "strict", description: "Exit with code 2 if the compliance check finds violations" },
+];
+
+// Options that take a value
+const OPTIONS: readonly OptionDef[] = [
+  { name: "profile", value: "<name>", description: "Use a named config profile for this run" },
+  {
+    name: "config-file",
+    value: "<path>",
+    description: "Read and save the config at this path instead of ~/.config/whstats",
+  },
+  {
+    name: "from",
+    value: "<date>",
+    description: "Start of a custom range (date, 2026-W41, 2026-09, 2026-Q3, ...)",
+  },
+  { name: "to", value: "<date>", description: "End of a custom range (defaults to today)" },
+  { name: "date", value: "<date>", description: "Day to book on or move an entry to" },
+  { name: "activity", value: "<name>", description: "Redmine activity to book with" },
+  { name: "hours", value: "<hours>", description: "New hours for an edited entry" },
+  { name: "comment", value: "<text>", description: "New comment for an edited entry" },
+  { name: "issue", value: "<issue>", description: "New issue for an edited entry" },
+  {
+    name: "by",
+    value: "<fields>",
+    description: "Group the report by project, issue and/or activity (e.g. project,issue)",
+  },
+  {
+    name: "delimiter",
+    value: "<char>",
+    description: "Field delimiter for --csv (default: , or ; with --decimal ,)",
+  },
+  {
+    name: "group-by",
+    value: "<period>",
+    description: "Aggregate the days into periods: week or month",
+  },
+  {
+    name: "compare",
+    value: "<range>",
+    description: "Compare the summary with the previous period or last year: previous, last-year",
+  },
+  {
+    name: "html",
+    value: "<file>",
+    description: "Write a printable HTML timesheet with charts to a file (- for stdout)",
+  },
+  { name: "decimal", value: "<sep>", description: "Decimal separator for --csv/--tsv: . or ," },
+  {
+    name: "member",
+    value: "<name>",
+    description: "Show one team member's days in the team report",
+  },
+  {
+    name: "bookings",
+    value: "<mode>",
+    description: "Include bookings in the ics export: all-day or stacked",
+  },
 ];
 
 const COMMANDS: readonly CommandDef[] = [
@@ -92,10 +324,128 @@ const COMMANDS: readonly CommandDef[] = [
     handler: getYearToDateRange,
     exampleArg: "--year-to-date",
   },
+  {
+    name: "this-week",
+    description: "Show time statistics for the current week (Mon-Sun)",
+    type: "range-fn",
+    handler: getThisWeekRange,
+    exampleArg: "--this-week",
+  },
+  {
+    name: "last-week",
+    description: "Show time statistics for the previous week (Mon-Sun)",
+    type: "range-fn",
+    handler: getLastWeekRange,
+    exampleArg: "--last-week",
+  },
+  {
+    name: "this-month",
+    description: "Show time statistics for the current calendar month",
+    type: "range-fn",
+    handler: getThisMonthRange,
+    exampleArg: "--this-month",
+  },
+  {
+    name: "last-month",
+    description: "Show time statistics for the previous calendar month",
+    type: "range-fn",
+    handler: getLastMonthRange,
+    exampleArg: "--last-month",
+  },
+  {
+    name: "this-quarter",
+    description: "Show time statistics for the current quarter",
+    type: "range-fn",
+    handler: getThisQuarterRange,
+    exampleArg: "--this-quarter",
+  },
+  {
+    name: "last-quarter",
+    description: "Show time statistics for the previous quarter",
+    type: "range-fn",
+    handler: getLastQuarterRange,
+    exampleArg: "--last-quarter",
+  },
+  {
+    name: "book",
+    description: "Book time on a Redmine issue, with an optional comment",
+    type: "action",
+    handler: async (ctx) => handleBook(ctx),
+    exampleArg: "book <issue> <hours>",
+  },
+  {
+    name: "edit",
+    aliases: ["move"],
+    description: "Change hours, comment, issue, activity or date of a time entry",
+    type: "action",
+    handler: async (ctx) => handleEdit(ctx),
+    exampleArg: "edit <entry>",
+  },
+  {
+    name: "delete",
+    description: "Delete a time entry",
+    type: "action",
+    handler: async (ctx) => handleDelete(ctx),
+    exampleArg: "delete <entry>",
+  },
+  {
+    name: "compliance",
+    description: "Check clock times against working-time rules (breaks, daily max, rest)",
+    type: "action",
+    handler: async (ctx) => handleCompliance(ctx),
+    exampleArg: "compliance [range]",
+    acceptsRange: true,
+  },
+  {
+    name: "report",
+    description: "Show booked hours grouped by project, issue or activity",
+    type: "action",
+    handler: async (ctx) => handleReport(ctx),
+    exampleArg: "report [range]",
+    acceptsRange: true,
+  },
+  {
+    name: "lint",
+    description: "Check bookings for empty comments, missing issues, duplicates and more",
+    type: "action",
+    handler: async (ctx) => handleLint(ctx),
+    exampleArg: "lint [range]",
+    acceptsRange: true,
+  },
+  {
+    name: "team",
+    description: "Compare booked and clocked hours of the configured team members",
+    type: "action",
+    handler: async (ctx) => handleTeam(ctx),
+    exampleArg: "team [range]",
+    acceptsRange: true,
+  },
+  {
+    name: "ics",
+    description: "Export clock sessions (and optionally bookings) as an iCalendar file",
+    type: "action",
+    handler: async (ctx) => handleIcs(ctx),
+    exampleArg: "ics [range]",
+    acceptsRange: true,
+  },
+  {
+    name: "balance",
+    description: "Show the booked and clocked overtime balance as of today",
+    type: "action",
+    handler: async (ctx) => handleBalance(ctx),
+    exampleArg: "balance",
+  },
+  {
+    name: "profiles",
+    description: "List, add, copy or remove config profiles, or set the default",
+    type: "action",
+    handler: async (ctx) => handleProfiles(ctx),
+    exampleArg: "profiles [list|add|copy|remove|default]",
+  },
   {
     name: "config",
     aliases: ["setup"],
-    description: "Configure credentials (interactive)",
+    description: "Configure credentials (interactive, or saved from the setting flags)",
     type: "action",
     handler: async () => handleSetup(),
     exampleArg: "--config",
@@ -107,6 +457,13 @@ const COMMANDS: readonly CommandDef[] = [
     handler: async () => showConfig(),
     exampleArg: "--show-config",
   },
+  {
+    name: "cache-status",
+    description: "Show the local cache location and contents",
+    type: "action",
+    handler: async () => showCacheStatus(),
+    exampleArg: "--cache-status",
+  },
   {
     name: "reset",
     description: "Delete saved configuration",
@@ -132,9 +489,9 @@ const COMMANDS: readonly CommandDef[] = [
   },
 ];
 
-// Build parseArgs options from both commands and modifiers
-function buildParseArgsOptions(): Record<string, { type: "boolean"; short?: string }> {
-  const options: Record<string, { type: "boolean"; short?: string }> = {};
+// Build parseArgs options from commands, modifiers and value options
+function buildParseArgsOptions(): Record<string, { type: "boolean" | "string"; short?: string }> {
+  const options: Record<string, { type: "boolean" | "string"; short?: string }> = {};
   for (const cmd of COMMANDS) {
     if (cmd.short) {
       options[cmd.name] = { type: "boolean", short: cmd.short };
@@ -149,16 +506,35 @@ function buildParseArgsOptions(): Record<string, { type: "boolean"; short?: stri
       options[mod.name] = { type: "boolean" };
     }
   }
+  for (const opt of OPTIONS) {
+    options[opt.name] = { type: "string" };
+  }
+  for (const field of CONFIG_FIELDS) {
+    options[field.flag] = { type: "string" };
+  }
   return options;
 }
 
 // Build help text from registry
 function buildHelpLines(): string {
-  const MAX_FLAG_WIDTH = 23;
+  const MAX_FLAG_WIDTH = Math.max(
+    23,
+    ...COMMANDS.map((cmd) => `whstats ${cmd.exampleArg}`.length),
+    ...OPTIONS.map((opt) => `whstats --${opt.name} ${opt.value}`.length),
+  );
   const lines: string[] = [];
 
   // Default command
-  lines.push(helpLine("whstats", "Show time statistics for the last 7 days (default)", MAX_FLAG_WIDTH));
+  lines.push(
+    helpLine("whstats", "Show time statistics for the last 7 days (default)", MAX_FLAG_WIDTH),
+  );
+  lines.push(
+    helpLine(
+      "whstats <range>",
+      "Show a day, ISO week, month, quarter or year (e.g. 2026-W41, 2026-09)",
+      MAX_FLAG_WIDTH,
+    ),
+  );
 
   // Commands from registry
   for (const cmd of COMMANDS) {
@@ -174,9 +550,22 @@ function buildHelpLines(): string {
     lines.push(helpLine(`whstats --${mod.name}`, `${mod.description}${shortText}`, MAX_FLAG_WIDTH));
   }
 
+  // Value options from registry
+  for (const opt of OPTIONS) {
+    lines.push(helpLine(`whstats --${opt.name} ${opt.value}`, opt.description, MAX_FLAG_WIDTH));
+  }
+
   return lines.join("\n");
 }
 
+// Config overrides with their flag and environment variable
+function buildConfigOverrideLines(): string {
+  const width = Math.max(...CONFIG_FIELDS.map((field) => `--${field.flag} ${field.value}`.length));
+  return CONFIG_FIELDS.map((field) =>
+    helpLine(`--${field.flag} ${field.value}`, getEnvVariable(field), width),
+  ).join("\n");
+}
+
 // Find command definition by resolved name
 function findCommand(name: string): CommandDef | undefined {
   return COMMANDS.find(
@@ -185,10 +574,7 @@ function findCommand(name: string): CommandDef | undefined {
 }
 
 // Resolve which command to run based on parsed values and positionals
-function resolveCommand(
-  values: Record<string, boolean | undefined>,
-  positionals: string[],
-): string | null {
+function resolveCommand(values: ParsedValues, positionals: string[]): string | null {
   for (const cmd of COMMANDS) {
     if (values[cmd.name]) return cmd.name;
   }
@@ -196,10 +582,41 @@ function resolveCommand(
 }
 
 // Build RunContext from parsed values
-function buildRunContext(values: Record<string, boolean | undefined>): RunContext {
+function buildRunContext(values: ParsedValues): RunContext {
   return {
-    brief: values.brief ?? false,
-    json: values.json ?? false,
+    brief: values.brief === true,
+    json: values.json === true,
+    csv: values.csv === true,
+    tsv: values.tsv === true,
+    markdown: values.markdown === true,
+    compact: values.compact === true,
+    noCache: values["no-cache"] === true,
+    refresh: values.refresh === true,
+    offline: values.offline === true,
+    sessions: values.sessions === true,
+    warnings: values.warnings === true,
+    chart: values.chart === true,
+    from: typeof values.from === "string" ? values.from : undefined,
+    to: typeof values.to === "string" ? values.to : undefined,
+    date: typeof values.date === "string" ? values.date : undefined,
+    activity: typeof values.activity === "string" ? values.activity : undefined,
+    hours: typeof values.hours === "string" ? values.hours : undefined,
+    comment: typeof values.comment === "string" ? values.comment : undefined,
+    issue: typeof values.issue === "string" ? values.issue : undefined,
+    by: typeof values.by === "string" ? values.by : undefined,
+    delimiter: typeof values.delimiter === "string" ? values.delimiter : undefined,
+    decimal: typeof values.decimal === "string" ? values.decimal : undefined,
+    html: typeof values.html === "string" ? values.html : undefined,
+    groupBy: typeof values["group-by"] === "string" ? values["group-by"] : undefined,
+    compare: typeof values.compare === "string" ? values.compare : undefined,
+    profile: typeof values.profile === "string" ? values.profile : undefined,
+    configFile: typeof values["config-file"] === "string" ? values["config-file"] : undefined,
+    member: typeof values.member === "string" ? values.member : undefined,
+    bookings: typeof values.bookings === "string" ? values.bookings : undefined,
+    yes: values.yes === true,
+    dryRun: values["dry-run"] === true,
+    strict: values.strict === true,
+    args: [],
   };
 }
 
@@ -212,6 +629,12 @@ function helpLine(flag: string, desc: string, width = 23): string {
   return `    ${c.highlight(padded)} ${c.dim(desc)}`;
 }
 
+function exitWithUsageError(message: string): never {
+  console.error(c.line(`\n  ${c.warning(message)}`));
+  console.error(c.line(`  ${c.dim("Run 'whstats --help' for usage.")}\n`));
+  process.exit(1);
+}
+
 function showHelp(): void {
   console.log(
     c.line(`
@@ -229,6 +652,12 @@ ${buildHelpLines()}
   ${c.info("Configuration:")}
     Run ${c.highlight("'whstats --config'")} to configure your credentials interactively.
     Credentials are stored in: ${c.dim("~/.config/whstats/config.json")}
+
+    Every setting can be overridden for a run with a flag or environment variable
+    (flags > environment > config file). Structured settings take the JSON of the
+    config file. ${c.highlight("'whstats --config'")} with flags saves them without prompting.
+
+${buildConfigOverrideLines()}
 `),
   );
 }
@@ -241,44 +670,236 @@ function maskSecret(_value: string): string {
   return "**********";
 }
 
+// Where a setting came from: the flag, the environment variable, the config file or the default
+function formatSource(key: keyof Config, sources: Partial<Record<keyof Config, ConfigSource>>) {
+  const field = CONFIG_FIELDS.find((candidate) => candidate.key === key)!;
+  switch (sources[key]) {
+    case "flag":
+      return c.dim(`(--${field.flag})`);
+    case "env":
+      return c.dim(`(${getEnvVariable(field)})`);
+    case "file":
+      return c.dim("(config file)");
+    case undefined:
+      return c.dim("(default)");
+  }
+}
+
+// Settings shown on their own line by --show-config
+const SHOWN_SETTINGS: ReadonlySet<keyof Config> = new Set([
+  "redmineUrl",
+  "redmineApiKey",
+  "mssqlServer",
+  "mssqlDatabase",
+  "mssqlUser",
+  "mssqlPassword",
+  "slackUserId",
+  "targetHoursPerDay",
+  "workSchedule",
+  "ignoredRedmineTicketIds",
+  "holidayState",
+  "customHolidays",
+  "balance",
+]);
+
 function showConfig(): void {
   const configPath = getConfigPath();
-  const exists = configExists();
+  const pathSource = getConfigPathSource();
+  let resolved: ReturnType<typeof resolveConfig>;
+  try {
+    resolved = resolveConfig();
+  } catch (error) {
+    exitWithError(error);
+  }
+  const missing = resolved ? getMissingFields(resolved.config) : [];
 
-  console.log(c.line(`\n  Config file: ${configPath}`));
-  console.log(
-    c.line(`  Status: ${exists ? c.success("configured") : c.warning("not configured")}\n`),
-  );
+  let status = c.success("configured");
+  if (!resolved) {
+    status = c.warning("not configured");
+  } else if (missing.length > 0) {
+    status = c.warning(`incomplete (missing ${missing.map((field) => field.label).join(", ")})`);
+  }
 
-  if (exists) {
-    const config = loadConfig();
-    if (config) {
-      console.log(c.line("  Current settings:"));
-      console.log(c.line(`    Redmine URL:       ${c.highlight(config.redmineUrl)}`));
-      console.log(
-        c.line(`    Redmine API Key:   ${c.highlight(maskSecret(config.redmineApiKey))}`),
-      );
-      console.log(c.line(`    MSSQL Server:      ${c.highlight(config.mssqlServer)}`));
-      console.log(c.line(`    MSSQL Database:    ${c.highlight(config.mssqlDatabase)}`));
-      console.log(c.line(`    MSSQL User:        ${c.highlight(config.mssqlUser)}`));
-      console.log(
-        c.line(`    MSSQL Password:    ${c.highlight(maskSecret(config.mssqlPassword))}`),
-      );
-      console.log(c.line(`    Slack User ID:     ${c.highlight(maskSecret(config.slackUserId))}`));
-      console.log(
-        c.line(`    Target hours/day:  ${c.highlight(`${config.targetHoursPerDay ?? 8}h`)}`),
-      );
-      const ignored = config.ignoredRedmineTicketIds ?? [];
-      const ignoredLabel = ignored.length > 0 ? ignored.join(", ") : "(none)";
-      console.log(c.line(`    Ignored tickets:   ${c.highlight(ignoredLabel)}`));
-      console.log("");
+  const pathLabel = pathSource === "flag" ? "--config-file" : "WHSTATS_CONFIG_FILE";
+  const pathNote = pathSource ? ` ${c.dim(`(${pathLabel})`)}` : "";
+  console.log(c.line(`\n  Config file: ${configPath}${pathNote}`));
+  console.log(c.line(`  Profile: ${c.highlight(getActiveProfile())}`));
+  console.log(c.line(`  Status: ${status}\n`));
+
+  if (resolved) {
+    const { config, sources } = resolved;
+    const show = (label: string, key: keyof Config, value: string | undefined) => {
+      const text =
+        value === undefined || value === "" ? c.warning("(not set)") : c.highlight(value);
+      console.log(c.line(`    ${label.padEnd(19)}${text} ${formatSource(key, sources)}`));
+    };
+    const secret = (value: string | undefined) => (value ? maskSecret(value) : undefined);
+
+    console.log(c.line("  Current settings:"));
+    show("Redmine URL:", "redmineUrl", config.redmineUrl);
+    show("Redmine API Key:", "redmineApiKey", secret(config.redmineApiKey));
+    show("MSSQL Server:", "mssqlServer", config.mssqlServer);
+    show("MSSQL Database:", "mssqlDatabase", config.mssqlDatabase);
+    show("MSSQL User:", "mssqlUser", config.mssqlUser);
+    show("MSSQL Password:", "mssqlPassword", secret(config.mssqlPassword));
+    show("Slack User ID:", "slackUserId", secret(config.slackUserId));
+    show("Target hours/day:", "targetHoursPerDay", `${config.targetHoursPerDay ?? 8}h`);
+    const schedules = config.workSchedule ?? [];
+    if (schedules.length > 0) {
+      console.log(c.line(`    Work schedule: ${formatSource("workSchedule", sources)}`));
+      for (const schedule of schedules) {
+        console.log(c.line(`      ${c.highlight(formatSchedule(schedule))}`));
+      }
     }
+    const ignored = config.ignoredRedmineTicketIds ?? [];
+    const ignoredLabel = ignored.length > 0 ? ignored.join(", ") : "(none)";
+    show("Ignored tickets:", "ignoredRedmineTicketIds", ignoredLabel);
+    const stateLabel = config.holidayState
+      ? `${config.holidayState} (${GERMAN_STATES[config.holidayState] ?? "unknown"})`
+      : "(nationwide only)";
+    show("Holiday state:", "holidayState", stateLabel);
+    const custom = config.customHolidays ?? [];
+    const customLabel =
+      custom.length > 0 ? custom.map((holiday) => holiday.date).join(", ") : "(none)";
+    show("Custom holidays:", "customHolidays", customLabel);
+    const balanceLabel = config.balance ? `since ${config.balance.startDate}` : "(not configured)";
+    show("Overtime balance:", "balance", balanceLabel);
+
+    // Other settings are only listed when a flag or environment variable overrides them
+    for (const field of CONFIG_FIELDS) {
+      const source = sources[field.key];
+      if (!SHOWN_SETTINGS.has(field.key) && (source === "flag" || source === "env")) {
+        show(`${field.label}:`, field.key, "overridden");
+      }
+    }
+    console.log("");
   }
 }
 
+function showCacheStatus(): void {
+  const files = getCacheStatus();
+
+  console.log(c.line(`\n  Cache directory: ${getCacheDir()}`));
+  if (files.length === 0) {
+    console.log(c.line(`  Status: ${c.warning("empty")}\n`));
+    return;
+  }
+
+  for (const file of files) {
+    const label = file.source === "redmine" ? "Redmine entries" : "Clock events";
+    const span = file.firstDay ? `${file.firstDay} to ${file.lastDay}` : "(no days)";
+    console.log(c.line(`\n  ${c.info(label)} ${c.dim(`(user ${file.userId}, ${file.origin})`)}`));
+    console.log(c.line(`    Days cached:   ${c.highlight(`${file.dayCount}`)} ${c.dim(span)}`));
+    console.log(c.line(`    Items:         ${c.highlight(`${file.itemCount}`)}`));
+    console.log(c.line(`    Last sync:     ${c.highlight(file.lastSync ?? "never")}`));
+    console.log(
+      c.line(`    Size:          ${c.highlight(`${(file.sizeBytes / 1024).toFixed(1)} KB`)}`),
+    );
+  }
+  console.log("");
+}
+
+// Save the settings given as flags, or prompt for them
+async function saveOrPromptForConfig(existing: Config | null): Promise<void> {
+  if (!hasConfigOverrides()) {
+    await promptForConfig(existing);
+    return;
+  }
+  try {
+    saveConfigFromFlags();
+  } catch (error) {
+    exitWithError(error);
+  }
+  console.log(
+    c.line(
+      `\n  ${c.success(`Config saved to ${getConfigPath()} (profile "${getActiveProfile()}")`)}\n`,
+    ),
+  );
+}
+
 async function handleSetup(): Promise<void> {
-  const existing = loadConfig();
-  await promptForConfig(existing);
+  await saveOrPromptForConfig(loadSavedConfig());
+}
+
+function printProfiles(): void {
+  const { names, defaultProfile } = listProfiles();
+  if (names.length === 0) {
+    console.log(c.line(`\n  ${c.warning("No profiles configured.")}\n`));
+    return;
+  }
+  const active = getActiveProfile();
+  console.log(c.line(`\n  Profiles in ${getConfigPath()}:`));
+  for (const name of names) {
+    const notes = [
+      ...(name === defaultProfile ? ["default"] : []),
+      ...(name === active ? ["active"] : []),
+    ];
+    const label = notes.length > 0 ? ` ${c.dim(`(${notes.join(", ")})`)}` : "";
+    console.log(c.line(`    ${c.highlight(name)}${label}`));
+  }
+  console.log("");
+}
+
+// Profile actions and their arguments
+const PROFILE_ACTIONS: Record<string, string[]> = {
+  list: [],
+  add: ["<name>"],
+  copy: ["<from>", "<to>"],
+  remove: ["<name>"],
+  default: ["<name>"],
+};
+
+async function handleProfiles(ctx: RunContext): Promise<void> {
+  const [action = "list", ...names] = ctx.args;
+  const params = PROFILE_ACTIONS[action];
+  if (!params) {
+    exitWithUsageError(
+      `Unknown profiles action: ${action}. Use ${Object.keys(PROFILE_ACTIONS).join(", ")}`,
+    );
+  }
+  if (names.length !== params.length) {
+    exitWithUsageError(`Usage: whstats profiles ${[action, ...params].join(" ")}`);
+  }
+  const invalid = names.find((name) => !isValidProfileName(name));
+  if (invalid !== undefined) {
+    exitWithUsageError(
+      `Invalid profile name: ${invalid} (use letters, digits, ".", "_" or "-"; names like "constructor" are reserved)`,
+    );
+  }
+
+  const [name, target] = names as [string, string];
+  try {
+    switch (action) {
+      case "list":
+        printProfiles();
+        return;
+      case "add":
+        if (listProfiles().names.includes(name)) {
+          exitWithUsageError(`Profile "${name}" already exists. Use --config --profile ${name}`);
+        }
+        selectProfile(name);
+        await saveOrPromptForConfig(null);
+        return;
+      case "copy":
+        copyProfile(name, target);
+        console.log(c.line(`\n  ${c.success(`Profile "${name}" copied to "${target}".`)}\n`));
+        return;
+      case "remove":
+        if (!(await confirmChange(ctx, `\n  Remove profile "${name}"?`))) {
+          console.log(c.line(`\n  ${c.warning("Cancelled.")}\n`));
+          return;
+        }
+        removeProfile(name);
+        console.log(c.line(`\n  ${c.success(`Profile "${name}" removed.`)}\n`));
+        return;
+      case "default":
+        setDefaultProfile(name);
+        console.log(c.line(`\n  ${c.success(`"${name}" is now the default profile.`)}\n`));
+        return;
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
 }
 
 function handleReset(): void {
@@ -289,211 +910,900 @@ function handleReset(): void {
   }
 }
 
-function prepareStatsData(
-  entries: TimeEntry[],
-  clockedHours: Map<string, number>,
-  currentDate: string,
-  isCurrentDayClockRunning: boolean,
-  targetHoursPerDay: number,
+function printSourceNotice(sources: readonly SourceStatus[]): void {
+  const notice = renderSourceNotice(sources);
+  if (notice.length > 0) {
+    for (const line of notice) {
+      console.log(line);
+    }
+    console.log("");
+  }
+}
+
+function printDays(
+  statsData: StatsData,
+  ctx: RunContext,
   ignoredTicketIds: ReadonlySet<number>,
-): StatsData {
-  const isIgnored = (entry: TimeEntry): boolean => {
-    const issueId = entry.issue?.id;
-    return issueId !== undefined && ignoredTicketIds.has(issueId);
-  };
+  lintFindings: readonly LintFinding[],
+): void {
+  const timelineWindow = getTimelineWindow(statsData.days);
 
-  const grouped = groupByDate(entries);
-
-  // Combine all dates from both sources
-  const allDates = new Set([...grouped.keys(), ...clockedHours.keys()]);
-  const sortedDates = Array.from(allDates).sort();
-
-  const dayStats: DayStats[] = sortedDates.map((date) => {
-    const dayEntries = grouped.get(date) || [];
-    const grossBooked = calculateGrossBookedHours(dayEntries);
-    const netBooked = calculateNetBookedHours(dayEntries, ignoredTicketIds);
-    const clocked = clockedHours.get(date) || 0;
-    const excludedFromNet =
-      dayEntries.length > 0 && dayEntries.every((entry) => isIgnored(entry)) && clocked === 0;
-
-    return {
-      date,
-      dayName: new Date(date).toLocaleDateString("en-US", { weekday: "short" }),
-      grossBooked,
-      netBooked,
-      clocked,
-      excludedFromNet,
-      entries: dayEntries,
-    };
-  });
-
-  // Calculate totals
-  let totalBooked = 0;
-  let totalClocked = 0;
-  for (const stats of dayStats) {
-    totalBooked += stats.netBooked;
-    totalClocked += stats.clocked;
-  }
-
-  const eligibleDayStats = dayStats.filter((stats) => !stats.excludedFromNet);
-  const workdays = eligibleDayStats.length;
-  const currentDayStats = dayStats.find((stats) => stats.date === currentDate);
-  const hasCurrentDateInRange = currentDayStats !== undefined;
-
-  let targetTotal = 0;
-  let hasPartialCurrentDayTarget = false;
-  let partialCurrentDayTarget = 0;
-
-  for (const stats of eligibleDayStats) {
-    let dayTarget = targetHoursPerDay;
-    if (isCurrentDayClockRunning && stats.date === currentDate) {
-      const clockedToday = stats.clocked;
-      dayTarget = Math.min(clockedToday, targetHoursPerDay);
-      hasPartialCurrentDayTarget = dayTarget !== targetHoursPerDay;
-      partialCurrentDayTarget = dayTarget;
-    }
-    targetTotal += dayTarget;
-  }
-
-  const bookedToday = currentDayStats?.netBooked ?? 0;
-  const bookedPastDays = totalBooked - bookedToday;
-  const clockedToday = hasCurrentDateInRange ? currentDayStats?.clocked || 0 : 0;
-  const clockedPastDays = totalClocked - clockedToday;
-
-  const bookedDiscrepancy = totalBooked - targetTotal;
-  const clockedDiscrepancy = totalClocked - targetTotal;
-  const bookedPct = targetTotal > 0 ? Math.round((totalBooked / targetTotal) * 100) : 0;
-  const clockedPct = targetTotal > 0 ? Math.round((totalClocked / targetTotal) * 100) : 0;
-  const efficiency = totalClocked > 0 ? Math.round((totalBooked / totalClocked) * 100) : 0;
-
-  const summary: SummaryData = {
-    workdays,
-    targetHoursPerDay,
-    targetTotal,
-    hasPartialCurrentDayTarget,
-    partialCurrentDayTarget,
-    booked: {
-      total: totalBooked,
-      past: bookedPastDays,
-      today: bookedToday,
-    },
-    clocked: {
-      total: totalClocked,
-      past: clockedPastDays,
-      today: clockedToday,
-    },
-    discrepancies: {
-      booked: bookedDiscrepancy,
-      clocked: clockedDiscrepancy,
-    },
-    percentages: {
-      booked: bookedPct,
-      clocked: clockedPct,
-      efficiency,
-    },
-    currentDate,
-    isClockRunningToday: isCurrentDayClockRunning,
-  };
+  for (const day of statsData.days) {
+    for (const line of renderDayHeader(day)) {
+      console.log(line);
+    }
 
-  return { days: dayStats, summary };
+    if (ctx.sessions && !day.missing) {
+      for (const line of renderSessions(day, timelineWindow, ctx.brief)) {
+        console.log(line);
+      }
+    }
+
+    if (!ctx.brief) {
+      for (const line of renderEntries(day.entries, ignoredTicketIds, statsData.issues)) {
+        console.log(line);
+      }
+      const dayFindings = lintFindings.filter((finding) => finding.date === day.date);
+      for (const line of renderLintWarnings(dayFindings)) {
+        console.log(line);
+      }
+      console.log("");
+    }
+  }
+}
+
+// Bar chart per day, or a calendar heatmap for ranges longer than a month
+function printChart(statsData: StatsData, fromDate: string, toDate: string): void {
+  const terminalWidth = process.stdout.columns || 80;
+  // Decided by the range, as days without data (empty weekends, the future) are left out
+  const lines =
+    getDatesInRange(fromDate, toDate).length > MAX_BAR_CHART_DAYS
+      ? renderHeatmap(statsData.days, statsData.summary, terminalWidth)
+      : renderDayBars(statsData.days, terminalWidth);
+  for (const line of lines) {
+    console.log(line);
+  }
+  console.log("");
 }
 
 function displayResults(
-  entries: TimeEntry[],
-  clockedHours: Map<string, number>,
-  currentDate: string,
-  isCurrentDayClockRunning: boolean,
-  brief = false,
-  targetHoursPerDay = 8,
-  ignoredTicketIds: ReadonlySet<number> = new Set<number>(),
-  json = false,
-  fromDate = "",
-  toDate = "",
+  statsData: StatsData,
+  ctx: RunContext,
+  csvOptions: CsvOptions | null,
+  fromDate: string,
+  toDate: string,
+  sources: readonly SourceStatus[],
+  ignoredTicketIds: ReadonlySet<number>,
+  anomalies: readonly Anomaly[],
+  lintFindings: readonly LintFinding[],
+  groupBy?: PeriodUnit,
+  comparison?: Comparison,
 ): void {
-  const statsData = prepareStatsData(
-    entries,
-    clockedHours,
-    currentDate,
-    isCurrentDayClockRunning,
-    targetHoursPerDay,
-    ignoredTicketIds,
-  );
+  const periods = groupBy ? groupDaysByPeriod(statsData.days, groupBy, fromDate, toDate) : [];
+
+  if (csvOptions) {
+    console.log(renderCsv(statsData, csvOptions, ctx.brief));
+    return;
+  }
+
+  if (ctx.markdown) {
+    console.log(
+      ctx.compact
+        ? renderMarkdownCompact(statsData, fromDate, toDate)
+        : renderMarkdown(statsData, fromDate, toDate, ignoredTicketIds, ctx.brief),
+    );
+    return;
+  }
 
-  if (json) {
-    console.log(renderJson(statsData, fromDate, toDate, brief));
+  if (ctx.json) {
+    console.log(
+      groupBy
+        ? renderPeriodsJson(statsData, periods, groupBy, fromDate, toDate, sources, comparison)
+        : renderJson(
+            statsData,
+            fromDate,
+            toDate,
+            ctx.brief,
+            sources,
+            ctx.sessions,
+            anomalies,
+            comparison,
+          ),
+    );
     return;
   }
 
   console.log("");
 
-  for (const day of statsData.days) {
-    for (const line of renderDayHeader(day)) {
+  printSourceNotice(sources);
+
+  if (ctx.chart) {
+    printChart(statsData, fromDate, toDate);
+  } else if (groupBy) {
+    for (const line of renderPeriods(periods, groupBy, fromDate, toDate)) {
+      console.log(line);
+    }
+  } else {
+    printDays(statsData, ctx, ignoredTicketIds, lintFindings);
+  }
+
+  for (const line of renderSummary(statsData.summary, comparison)) {
+    console.log(line);
+  }
+  console.log("");
+
+  const attention = renderAnomalies(anomalies);
+  if (attention.length > 0) {
+    for (const line of attention) {
       console.log(line);
     }
+    console.log("");
+  }
+}
+
+// Write generated output to a file, or to stdout for "-"
+function writeOutput(path: string, content: string, label: string): void {
+  if (path === "-") {
+    process.stdout.write(content);
+    return;
+  }
+  writeFileSync(path, content);
+  console.log(c.line(`\n  ${c.success(`${label} written to ${path}`)}\n`));
+}
 
-    if (!brief) {
-      for (const line of renderEntries(day.entries, ignoredTicketIds)) {
+// Only one of the alternative output formats can be used per run
+function checkOutputFormat(ctx: RunContext): void {
+  const formats = (["json", "csv", "tsv", "markdown", "html"] as const).filter(
+    (format) => ctx[format],
+  );
+  if (formats.length > 1) {
+    exitWithUsageError(`--${formats[0]} cannot be combined with --${formats[1]}`);
+  }
+  if (ctx.chart && formats.length > 0) {
+    exitWithUsageError(`--chart cannot be combined with --${formats[0]}`);
+  }
+  if (ctx.compact && !ctx.markdown) {
+    exitWithUsageError("--compact requires --markdown");
+  }
+}
+
+// Period unit for --group-by; periods have a human and a JSON view only
+function getGroupBy(ctx: RunContext): PeriodUnit | undefined {
+  if (ctx.groupBy === undefined) {
+    return undefined;
+  }
+  if (!PERIOD_UNITS.includes(ctx.groupBy as PeriodUnit)) {
+    exitWithUsageError(`Invalid --group-by value. Use one of: ${PERIOD_UNITS.join(", ")}`);
+  }
+  const conflict = (["csv", "tsv", "markdown", "html", "chart"] as const).find((flag) => ctx[flag]);
+  if (conflict) {
+    exitWithUsageError(`--group-by cannot be combined with --${conflict}`);
+  }
+  return ctx.groupBy as PeriodUnit;
+}
+
+// Comparison mode for --compare; the comparison is part of the summary and JSON output
+function getCompareMode(ctx: RunContext): CompareMode | undefined {
+  if (ctx.compare === undefined) {
+    return undefined;
+  }
+  if (!COMPARE_MODES.includes(ctx.compare as CompareMode)) {
+    exitWithUsageError(`Invalid --compare value. Use one of: ${COMPARE_MODES.join(", ")}`);
+  }
+  const conflict = (["csv", "tsv", "markdown", "html"] as const).find((flag) => ctx[flag]);
+  if (conflict) {
+    exitWithUsageError(`--compare cannot be combined with --${conflict}`);
+  }
+  return ctx.compare as CompareMode;
+}
+
+// CSV settings for --csv/--tsv, or null for other output formats
+function getCsvOptions(ctx: RunContext): CsvOptions | null {
+  checkOutputFormat(ctx);
+  if (!ctx.csv && !ctx.tsv) {
+    if (ctx.delimiter !== undefined || ctx.decimal !== undefined) {
+      exitWithUsageError("--delimiter and --decimal require --csv or --tsv");
+    }
+    return null;
+  }
+
+  const decimalSeparator = ctx.decimal ?? ".";
+  if (decimalSeparator !== "." && decimalSeparator !== ",") {
+    exitWithUsageError("--decimal must be . or ,");
+  }
+  if (ctx.tsv) {
+    if (ctx.delimiter !== undefined) {
+      exitWithUsageError("--delimiter cannot be combined with --tsv");
+    }
+    return { delimiter: "\t", decimalSeparator };
+  }
+
+  // Spreadsheets using a decimal comma expect semicolon-separated files
+  const delimiter =
+    ctx.delimiter === "tab" ? "\t" : (ctx.delimiter ?? (decimalSeparator === "," ? ";" : ","));
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    exitWithUsageError("--delimiter must be a single character (or 'tab')");
+  }
+  return { delimiter, decimalSeparator };
+}
+
+function getCacheOptions(ctx: RunContext): CacheOptions {
+  if (ctx.offline && ctx.noCache) {
+    exitWithUsageError("--offline cannot be combined with --no-cache");
+  }
+  return { useCache: !ctx.noCache, refresh: ctx.refresh, offline: ctx.offline };
+}
+
+// Ask before changing data, unless --yes is given. Without a terminal to ask on, --yes is required.
+async function confirmChange(ctx: RunContext, question: string): Promise<boolean> {
+  if (ctx.yes) return true;
+  if (!process.stdin.isTTY) {
+    exitWithUsageError("Not running in a terminal. Use --yes to confirm without asking");
+  }
+  return confirm(question);
+}
+
+function exitWithError(error: unknown): never {
+  if (error instanceof Error) {
+    console.error(c.line(`\n  ${c.danger(`Error: ${error.message}`)}\n`));
+  } else {
+    console.error(c.line(`\n  ${c.danger("An unexpected error occurred.")}\n`));
+  }
+  process.exit(1);
+}
+
+async function handleBook(ctx: RunContext): Promise<void> {
+  const [issueArg, hoursArg, ...commentParts] = ctx.args;
+  if (!issueArg || !hoursArg) {
+    exitWithUsageError(
+      "Usage: whstats book <issue> <hours> [comment] [--date <date>] [--activity <name>]",
+    );
+  }
+
+  const issueId = parseId(issueArg, "issue number");
+  const hours = parseHours(hoursArg);
+  if (hours === null) {
+    exitWithUsageError(`Invalid hours: ${hoursArg}`);
+  }
+  const spentOn = ctx.date ? parseDaySpec(ctx.date) : formatDate(new Date());
+  if (!spentOn) {
+    exitWithUsageError(`Invalid date: ${ctx.date}`);
+  }
+  const comments = commentParts.join(" ");
+
+  const config = getConfigOrExit();
+
+  try {
+    const [issue, activities] = await Promise.all([
+      fetchIssue(config, issueId),
+      fetchTimeEntryActivities(config),
+    ]);
+    const activity = resolveActivity(activities, ctx.activity);
+
+    const created = await createTimeEntry(config, {
+      issueId,
+      hours,
+      comments,
+      spentOn,
+      activityId: activity?.id,
+    });
+
+    if (ctx.json) {
+      console.log(JSON.stringify({ timeEntry: created }, null, 2));
+      return;
+    }
+
+    const activityName = created.activity?.name ?? activity?.name ?? "default activity";
+    console.log(
+      c.line(
+        `\n  ${c.success("Booked")} ${c.highlight(formatHours(hours))} on ${c.danger(`#${issueId}`)} ${c.dim(issue.subject)} ${c.dim(`(${activityName})`)}\n`,
+      ),
+    );
+
+    await printUpdatedDay(config, spentOn);
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+function parseId(value: string, label: string): number {
+  const id = Number(value.replace(/^#/, ""));
+  if (!Number.isInteger(id) || id <= 0) {
+    exitWithUsageError(`Invalid ${label}: ${value}`);
+  }
+  return id;
+}
+
+async function handleEdit(ctx: RunContext): Promise<void> {
+  const [entryArg] = ctx.args;
+  if (!entryArg) {
+    exitWithUsageError(
+      "Usage: whstats edit <entry> [--hours <h>] [--comment <text>] [--issue <id>] [--date <date>] [--activity <name>]",
+    );
+  }
+  const entryId = parseId(entryArg, "entry id");
+
+  const changes: TimeEntryChanges = {};
+  if (ctx.hours !== undefined) {
+    const hours = parseHours(ctx.hours);
+    if (hours === null) {
+      exitWithUsageError(`Invalid hours: ${ctx.hours}`);
+    }
+    changes.hours = hours;
+  }
+  if (ctx.comment !== undefined) {
+    changes.comments = ctx.comment;
+  }
+  if (ctx.issue !== undefined) {
+    changes.issueId = parseId(ctx.issue, "issue number");
+  }
+  if (ctx.date !== undefined) {
+    const spentOn = parseDaySpec(ctx.date);
+    if (!spentOn) {
+      exitWithUsageError(`Invalid date: ${ctx.date}`);
+    }
+    changes.spentOn = spentOn;
+  }
+  if (Object.keys(changes).length === 0 && ctx.activity === undefined) {
+    exitWithUsageError("Nothing to change. Use --hours, --comment, --issue, --date or --activity.");
+  }
+  if (ctx.json && !ctx.yes && !ctx.dryRun) {
+    exitWithUsageError("--json requires --yes or --dry-run");
+  }
+
+  const config = getConfigOrExit();
+
+  try {
+    const before = await fetchTimeEntry(config, entryId);
+    if (changes.issueId !== undefined) {
+      await fetchIssue(config, changes.issueId);
+    }
+    let activity: TimeEntryActivity | undefined;
+    if (ctx.activity !== undefined) {
+      activity = resolveActivity(await fetchTimeEntryActivities(config), ctx.activity);
+      changes.activityId = activity?.id;
+    }
+
+    const after: TimeEntry = {
+      ...before,
+      hours: changes.hours ?? before.hours,
+      comments: changes.comments ?? before.comments,
+      spent_on: changes.spentOn ?? before.spent_on,
+      issue: changes.issueId !== undefined ? { id: changes.issueId } : before.issue,
+      activity: activity ? { id: activity.id, name: activity.name } : before.activity,
+    };
+
+    if (ctx.json && ctx.dryRun) {
+      console.log(JSON.stringify({ dryRun: true, before, after }, null, 2));
+      return;
+    }
+
+    if (!ctx.json) {
+      console.log(c.line(`\n  ${c.info(`Time entry ${entryId}`)} ${c.dim(before.project.name)}`));
+      for (const line of renderEntryChanges(before, after)) {
+        console.log(line);
+      }
+      console.log("");
+    }
+
+    if (ctx.dryRun) {
+      console.log(c.line(`  ${c.dim("Dry run, nothing was changed.")}\n`));
+      return;
+    }
+    if (!(await confirmChange(ctx, "  Apply these changes?"))) {
+      console.log(c.line(`\n  ${c.warning("Cancelled.")}\n`));
+      return;
+    }
+
+    await updateTimeEntry(config, entryId, changes);
+
+    if (ctx.json) {
+      console.log(
+        JSON.stringify({ before, after: await fetchTimeEntry(config, entryId) }, null, 2),
+      );
+      return;
+    }
+
+    console.log(c.line(`\n  ${c.success(`Time entry ${entryId} updated.`)}\n`));
+    await printUpdatedDay(config, before.spent_on);
+    if (after.spent_on !== before.spent_on) {
+      await printUpdatedDay(config, after.spent_on);
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+async function handleDelete(ctx: RunContext): Promise<void> {
+  const [entryArg] = ctx.args;
+  if (!entryArg) {
+    exitWithUsageError("Usage: whstats delete <entry> [--yes] [--dry-run]");
+  }
+  const entryId = parseId(entryArg, "entry id");
+  if (ctx.json && !ctx.yes && !ctx.dryRun) {
+    exitWithUsageError("--json requires --yes or --dry-run");
+  }
+
+  const config = getConfigOrExit();
+  const ignoredTicketIds = new Set(config.ignoredRedmineTicketIds ?? []);
+
+  try {
+    const entry = await fetchTimeEntry(config, entryId);
+
+    if (ctx.json && ctx.dryRun) {
+      console.log(JSON.stringify({ dryRun: true, deleted: entry }, null, 2));
+      return;
+    }
+
+    if (!ctx.json) {
+      console.log(
+        c.line(`\n  ${c.info(`Time entry ${entryId}`)} ${c.dim(`on ${entry.spent_on}`)}`),
+      );
+      for (const line of renderEntries([entry], ignoredTicketIds)) {
         console.log(line);
       }
       console.log("");
     }
+
+    if (ctx.dryRun) {
+      console.log(c.line(`  ${c.dim("Dry run, nothing was deleted.")}\n`));
+      return;
+    }
+    if (!(await confirmChange(ctx, "  Delete this entry?"))) {
+      console.log(c.line(`\n  ${c.warning("Cancelled.")}\n`));
+      return;
+    }
+
+    await deleteTimeEntry(config, entryId);
+
+    if (ctx.json) {
+      console.log(JSON.stringify({ deleted: entry }, null, 2));
+      return;
+    }
+
+    console.log(c.line(`\n  ${c.success(`Time entry ${entryId} deleted.`)}\n`));
+    await printUpdatedDay(config, entry.spent_on);
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+// Re-fetch a single day (refreshing its cache) and print its header and entries
+async function printUpdatedDay(config: Config, date: string): Promise<void> {
+  const cacheOptions: CacheOptions = { useCache: true, refresh: true, offline: false };
+  let day: DayStats | undefined;
+  let issues: ReadonlyMap<number, Issue> = new Map();
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    const { statsData } = await loadStatsData(config, currentUser, date, date, cacheOptions, {
+      issues: true,
+    });
+    day = statsData.days.find((stats) => stats.date === date);
+    issues = statsData.issues;
+  } catch (error) {
+    // The change itself succeeded; only the summary line is unavailable
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(c.line(`  ${c.warning(`Could not load the updated day: ${message}`)}\n`));
+    return;
   }
+  if (!day) return;
 
-  for (const line of renderSummary(statsData.summary)) {
+  const ignoredTicketIds = new Set(config.ignoredRedmineTicketIds ?? []);
+  for (const line of renderDayHeader(day)) {
+    console.log(line);
+  }
+  for (const line of renderEntries(day.entries, ignoredTicketIds, issues)) {
     console.log(line);
   }
   console.log("");
 }
 
-async function runStats(
-  days: number,
-  ctx: RunContext,
-): Promise<void> {
+// Range for an action command: positional spec, --from/--to, or the last `defaultDays` days
+function resolveCommandRange(ctx: RunContext, defaultDays: number): { from: string; to: string } {
+  const [spec, ...rest] = ctx.args;
+  if (rest.length > 0) {
+    exitWithUsageError(`Unexpected argument: ${rest[0]}`);
+  }
+  if (ctx.from !== undefined || ctx.to !== undefined) {
+    if (spec !== undefined) {
+      exitWithUsageError(`--from/--to cannot be combined with ${spec}`);
+    }
+    try {
+      return resolveFromToRange(ctx.from, ctx.to);
+    } catch (error) {
+      exitWithUsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (spec === undefined) {
+    return getDateRange(defaultDays);
+  }
+  const range = parseRangeSpec(spec);
+  if (!range) {
+    exitWithUsageError(`Invalid range: ${spec}`);
+  }
+  return range;
+}
+
+async function handleCompliance(ctx: RunContext): Promise<void> {
+  const { from, to } = resolveCommandRange(ctx, 30);
+  const config = getConfigOrExit();
+  const cacheOptions = getCacheOptions(ctx);
+  const rules = resolveComplianceRules(config);
+
+  let report;
+  let sources: SourceStatus[];
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    // Include the previous day for the rest period before the first day
+    const previousDay = formatDate(addDays(parseDate(from)!, -1));
+    const result = await loadStatsData(config, currentUser, previousDay, to, cacheOptions);
+    report = checkCompliance(result.statsData.days, rules, from);
+    sources = result.sources;
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  if (ctx.json) {
+    console.log(renderComplianceJson(report, from, to, sources));
+  } else {
+    console.log("");
+    printSourceNotice(sources);
+    for (const line of renderCompliance(report)) {
+      console.log(line);
+    }
+    console.log("");
+  }
+
+  if (ctx.strict && report.violations.length > 0) {
+    process.exit(2);
+  }
+}
+
+async function handleReport(ctx: RunContext): Promise<void> {
+  const dimensions = parseReportDimensions(ctx.by ?? "project");
+  if (!dimensions) {
+    exitWithUsageError(`Invalid --by value. Use any of: ${REPORT_DIMENSIONS.join(", ")}`);
+  }
+  const csvOptions = getCsvOptions(ctx);
+  if (ctx.markdown || ctx.html) {
+    exitWithUsageError(`${ctx.markdown ? "--markdown" : "--html"} is not supported by report`);
+  }
+  const { from, to } = resolveCommandRange(ctx, 30);
+  const config = getConfigOrExit();
+  const cacheOptions = getCacheOptions(ctx);
+
+  let result;
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    result = await loadStatsData(config, currentUser, from, to, cacheOptions);
+  } catch (error) {
+    exitWithError(error);
+  }
+  const { statsData, sources } = result;
+  const report = buildReport(
+    statsData.days,
+    dimensions,
+    new Set(config.ignoredRedmineTicketIds ?? []),
+  );
+
+  if (ctx.json) {
+    console.log(renderReportJson(report, from, to, sources));
+    return;
+  }
+  if (csvOptions) {
+    console.log(renderReportCsv(report, csvOptions));
+    return;
+  }
+
+  console.log("");
+  printSourceNotice(sources);
+  for (const line of renderReport(report, from, to)) {
+    console.log(line);
+  }
+  console.log("");
+}
+
+async function handleLint(ctx: RunContext): Promise<void> {
+  const { from, to } = resolveCommandRange(ctx, 30);
+  const config = getConfigOrExit();
+  const cacheOptions = getCacheOptions(ctx);
+  const settings = resolveLintSettings(config);
+
+  let result;
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    result = await loadStatsData(config, currentUser, from, to, cacheOptions, {
+      issues: settings.rules.includes("closed-issue"),
+    });
+  } catch (error) {
+    exitWithError(error);
+  }
+  const { statsData, sources } = result;
+  const lint = lintEntries(
+    statsData.days,
+    settings,
+    createWorkCalendar(config, from, to),
+    statsData.issues,
+    new Set(config.ignoredRedmineTicketIds ?? []),
+  );
+
+  if (ctx.json) {
+    console.log(renderLintJson(lint, settings, from, to, sources));
+  } else {
+    console.log("");
+    printSourceNotice(sources);
+    for (const line of renderLint(lint, from, to)) {
+      console.log(line);
+    }
+    console.log("");
+  }
+
+  if (lint.findings.length > 0) {
+    process.exit(2);
+  }
+}
+
+async function handleTeam(ctx: RunContext): Promise<void> {
+  const csvOptions = getCsvOptions(ctx);
+  if (ctx.markdown || ctx.html) {
+    exitWithUsageError(`${ctx.markdown ? "--markdown" : "--html"} is not supported by team`);
+  }
+  const groupBy = getGroupBy(ctx);
+  const { from, to } = resolveCommandRange(ctx, 30);
+  const config = getConfigOrExit();
+  const team = config.team ?? [];
+  if (team.length === 0) {
+    exitWithUsageError(
+      `No team configured. Add a "team" array with name, redmineUserId and timeloggerUserId to ${getConfigPath()}`,
+    );
+  }
+  const cacheOptions = getCacheOptions(ctx);
+
+  // Drill-down: the regular day view for one member
+  if (ctx.member !== undefined) {
+    const member = findTeamMember(team, ctx.member);
+    if (!member) {
+      exitWithUsageError(`Unknown team member: ${ctx.member}`);
+    }
+    const memberConfig = getMemberConfig(config, member);
+    if (!ctx.brief && !ctx.json && !csvOptions) {
+      console.log(c.line(`\n${c.info(`Time entries for ${member.name}`)}`));
+    }
+
+    let result;
+    try {
+      result = await loadStatsData(memberConfig, getMemberUser(member), from, to, cacheOptions, {
+        issues: !ctx.brief,
+      });
+    } catch (error) {
+      exitWithError(error);
+    }
+    const { statsData, sources } = result;
+    const anomalies = detectAnomalies(
+      statsData.days,
+      statsData.summary.currentDate,
+      resolveAnomalySettings(config),
+    );
+    displayResults(
+      statsData,
+      ctx,
+      csvOptions,
+      from,
+      to,
+      sources,
+      new Set(config.ignoredRedmineTicketIds ?? []),
+      anomalies,
+      [],
+      groupBy,
+    );
+    return;
+  }
+
+  const results = await loadTeamStats(config, team, from, to, cacheOptions);
+
+  if (ctx.json) {
+    console.log(renderTeamJson(results, from, to));
+  } else if (csvOptions) {
+    console.log(renderTeamCsv(results, csvOptions));
+  } else {
+    console.log("");
+    for (const line of renderTeam(results, from, to)) {
+      console.log(line);
+    }
+    console.log("");
+  }
+
+  if (results.every((result) => result.error !== undefined)) {
+    process.exit(1);
+  }
+}
+
+async function handleIcs(ctx: RunContext): Promise<void> {
+  const mode = ctx.bookings;
+  if (mode !== undefined && !BOOKING_MODES.includes(mode as BookingMode)) {
+    exitWithUsageError(`Invalid --bookings value. Use one of: ${BOOKING_MODES.join(", ")}`);
+  }
+  const { from, to } = resolveCommandRange(ctx, 30);
+  const config = getConfigOrExit();
+  const cacheOptions = getCacheOptions(ctx);
+
+  let result;
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    result = await loadStatsData(config, currentUser, from, to, cacheOptions, {
+      issues: mode !== undefined,
+    });
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  // Keep stdout a valid calendar file; stale-source notices go to stderr
+  for (const line of renderSourceNotice(result.sources)) {
+    console.error(line);
+  }
+  process.stdout.write(renderIcs(result.statsData, { bookings: mode as BookingMode | undefined }));
+}
+
+async function handleBalance(ctx: RunContext): Promise<void> {
+  const config = getConfigOrExit();
+  const settings = config.balance;
+  if (!settings) {
+    exitWithUsageError(
+      `No overtime balance configured. Add a "balance" object with a "startDate" to ${getConfigPath()}`,
+    );
+  }
+  const cacheOptions = getCacheOptions(ctx);
+  const today = formatDate(new Date());
+
+  let result;
+  try {
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    result = await loadBalance(config, settings, currentUser, today, cacheOptions);
+  } catch (error) {
+    exitWithError(error);
+  }
+  const { state, sources } = result;
+
+  if (ctx.json) {
+    console.log(renderBalanceJson(settings, today, state.balance, sources));
+    return;
+  }
+
+  console.log("");
+  printSourceNotice(sources);
+  for (const line of renderBalance(settings, today, state.balance)) {
+    console.log(line);
+  }
+  console.log("");
+}
+
+async function runStats(days: number, ctx: RunContext): Promise<void> {
   const { from, to } = getDateRange(days);
   await runStatsForRange(from, to, ctx);
 }
 
-async function runStatsForRange(
+/**
+ * Add the running overtime balance to the days, continued from the days before the range.
+ * If the earlier days can't be loaded, the report is shown without the balance.
+ */
+async function addBalance(
+  config: Config,
+  currentUser: CurrentUser,
+  statsData: StatsData,
   from: string,
   to: string,
-  ctx: RunContext,
+  cacheOptions: CacheOptions,
 ): Promise<void> {
+  const balanceSettings = config.balance;
+  if (!balanceSettings || balanceSettings.startDate > to) return;
+
+  const previousDay = formatDate(addDays(parseDate(from)!, -1));
+  try {
+    const opening = await loadBalance(
+      config,
+      balanceSettings,
+      currentUser,
+      previousDay,
+      cacheOptions,
+    );
+    const { byDate } = accumulateBalance(statsData.days, balanceSettings, opening.state);
+    for (const day of statsData.days) {
+      day.balance = byDate.get(day.date);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(c.line(`\n  ${c.warning(`Overtime balance not shown: ${message}`)}`));
+  }
+}
+
+async function runStatsForRange(from: string, to: string, ctx: RunContext): Promise<void> {
   const config = getConfigOrExit();
   const ignoredTicketIds = new Set(config.ignoredRedmineTicketIds ?? []);
+  const cacheOptions = getCacheOptions(ctx);
+  const csvOptions = getCsvOptions(ctx);
+  const groupBy = getGroupBy(ctx);
+  const compareMode = getCompareMode(ctx);
 
   try {
-    const user = await fetchCurrentUser(config);
-    if (!ctx.brief && !ctx.json) {
-      console.log(
-        c.line(`\n${c.info(`Fetching time entries for ${user.firstname} ${user.lastname}...`)}`),
+    const currentUser = await loadCurrentUser(config, cacheOptions);
+    if (!ctx.brief && !ctx.json && !ctx.markdown && !ctx.html && !csvOptions) {
+      const { firstname, lastname } = currentUser.user;
+      const action = ctx.offline ? "Loading cached" : "Fetching";
+      console.log(c.line(`\n${c.info(`${action} time entries for ${firstname} ${lastname}...`)}`));
+    }
+
+    const { statsData, sources: rangeSources } = await loadStatsData(
+      config,
+      currentUser,
+      from,
+      to,
+      cacheOptions,
+      {
+        issues: !ctx.brief && !ctx.compact,
+      },
+    );
+
+    // Only the daily views show the balance; loading it reads everything since its start date
+    const showsBalance = !csvOptions && !ctx.markdown && !ctx.chart && !groupBy;
+    if (showsBalance) {
+      await addBalance(config, currentUser, statsData, from, to, cacheOptions);
+    }
+
+    if (ctx.html) {
+      const { firstname, lastname } = currentUser.user;
+      const projects = buildReport(statsData.days, ["project"], ignoredTicketIds);
+      writeOutput(
+        ctx.html,
+        renderHtml(statsData, projects, from, to, `${firstname} ${lastname}`),
+        "Timesheet",
       );
+      return;
     }
 
-    const [entries, clockedData] = await Promise.all([
-      fetchTimeEntries(config, user.id, from, to),
-      fetchClockedHours(config, from, to),
-    ]);
+    let sources = rangeSources;
+    let comparison: Comparison | undefined;
+    if (compareMode) {
+      const range = getComparisonRange(from, to, compareMode, statsData.summary.currentDate);
+      const earlier = await loadStatsData(config, currentUser, range.from, range.to, cacheOptions);
+      // Stale data of the earlier range is reported along with the current one
+      sources = mergeSourceStatus(sources, earlier.sources);
+      comparison = {
+        mode: compareMode,
+        ...range,
+        summary: earlier.statsData.summary,
+        deltas: compareSummaries(statsData.summary, earlier.statsData.summary),
+      };
+    }
 
-    const targetHours = config.targetHoursPerDay ?? 8;
+    const lintFindings = ctx.warnings
+      ? lintEntries(
+          statsData.days,
+          resolveLintSettings(config),
+          createWorkCalendar(config, from, to),
+          statsData.issues,
+          ignoredTicketIds,
+        ).findings
+      : [];
+    const anomalies = detectAnomalies(
+      statsData.days,
+      statsData.summary.currentDate,
+      resolveAnomalySettings(config),
+    );
     displayResults(
-      entries,
-      clockedData.hoursByDate,
-      clockedData.today,
-      clockedData.isClockRunningToday,
-      ctx.brief,
-      targetHours,
-      ignoredTicketIds,
-      ctx.json,
+      statsData,
+      ctx,
+      csvOptions,
       from,
       to,
+      sources,
+      ignoredTicketIds,
+      anomalies,
+      lintFindings,
+      groupBy,
+      comparison,
     );
   } catch (error) {
-    if (error instanceof Error) {
-      console.error(c.line(`\n  ${c.danger(`Error: ${error.message}`)}\n`));
-    } else {
-      console.error(c.line(`\n  ${c.danger("An unexpected error occurred.")}\n`));
-    }
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -515,15 +1825,48 @@ async function main(): Promise<void> {
       console.error(c.line(`  ${c.dim("Run 'whstats --help' for usage.")}\n`));
       process.exit(1);
     }
+    if (error instanceof Error && error.message.includes("argument missing")) {
+      const flag = error.message.match(/'(--[\w-]+)/)?.[1] ?? "option";
+      exitWithUsageError(`Missing value for ${flag}`);
+    }
     throw error;
   }
 
   const { values, positionals } = parsed;
   const ctx = buildRunContext(values);
 
+  if (ctx.profile !== undefined) {
+    if (!isValidProfileName(ctx.profile)) {
+      exitWithUsageError(`Invalid profile name: ${ctx.profile}`);
+    }
+    selectProfile(ctx.profile);
+  }
+  setConfigFile(ctx.configFile);
+  try {
+    setConfigOverrides(values);
+  } catch (error) {
+    exitWithUsageError(error instanceof Error ? error.message : String(error));
+  }
+
   // Resolve and execute command
   const commandName = resolveCommand(values, positionals);
 
+  // Custom range via --from/--to, unless an action command takes the range itself
+  const takesRange = commandName !== null && findCommand(commandName)?.acceptsRange === true;
+  if (!takesRange && (ctx.from !== undefined || ctx.to !== undefined)) {
+    if (commandName !== null) {
+      exitWithUsageError(`--from/--to cannot be combined with ${commandName}`);
+    }
+    let range: { from: string; to: string };
+    try {
+      range = resolveFromToRange(ctx.from, ctx.to);
+    } catch (error) {
+      exitWithUsageError(error instanceof Error ? error.message : String(error));
+    }
+    await runStatsForRange(range.from, range.to, ctx);
+    return;
+  }
+
   // Default case: no command specified
   if (commandName === null) {
     await runStats(7, ctx);
@@ -534,15 +1877,22 @@ async function main(): Promise<void> {
   const commandDef = findCommand(commandName);
 
   if (!commandDef) {
-    console.error(c.line(`\n  ${c.warning(`Unknown command: ${commandName}`)}`));
-    console.error(c.line(`  ${c.dim("Run 'whstats --help' for usage.")}\n`));
-    process.exit(1);
+    // Positional range spec, e.g. "whstats 2026-W41" or "whstats 2026-09"
+    const range = parseRangeSpec(commandName);
+    if (range) {
+      await runStatsForRange(range.from, range.to, ctx);
+      return;
+    }
+
+    exitWithUsageError(`Unknown command: ${commandName}`);
   }
 
   // Execute based on command type
   switch (commandDef.type) {
     case "action": {
       const handler = commandDef.handler as (ctx: RunContext) => void | Promise<void>;
+      // Arguments follow the command, e.g. "whstats book 123 1.5" or "whstats --book 123 1.5"
+      ctx.args = values[commandDef.name] ? positionals : positionals.slice(1);
       await handler(ctx);
       break;
     }
@@ -0,0 +1,113 @@
+import type { Config } from "./config.js";
+import type { DayStats } from "./output/types.js";
+
+export type AnomalyKind = "booked-not-clocked" | "overbooked" | "clocked-not-booked" | "wrong-date";
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  date: string;
+  // The adjacent day of a "wrong-date" pair
+  relatedDate?: string;
+  booked: number;
+  clocked: number;
+  // Booked minus clocked hours; for "wrong-date", the surplus moved to the related day
+  difference: number;
+}
+
+export interface AnomalySettings {
+  // Booked hours may exceed clocked hours by this much before a day is flagged
+  overbookedMargin: number;
+  // Maximum mismatch between surplus and deficit of a "wrong-date" pair
+  wrongDateTolerance: number;
+}
+
+const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  overbookedMargin: 0.5,
+  wrongDateTolerance: 0.5,
+};
+
+// Adjacent days may be up to this far apart, so Friday and Monday still pair up
+const MAX_PAIR_DISTANCE_DAYS = 3;
+
+export function resolveAnomalySettings(config: Config): AnomalySettings {
+  return { ...DEFAULT_ANOMALY_SETTINGS, ...config.anomalies };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Find "booked on the wrong date" pairs: a day with more booked than clocked hours next to
+ * a day with a deficit of about the same size.
+ */
+function findWrongDatePairs(days: readonly DayStats[], settings: AnomalySettings): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const paired = new Set<string>();
+  const difference = (day: DayStats) => day.netBooked - day.clocked;
+
+  for (let i = 0; i < days.length; i++) {
+    const surplusDay = days[i]!;
+    const surplus = difference(surplusDay);
+    if (surplus <= settings.overbookedMargin || paired.has(surplusDay.date)) continue;
+
+    for (const neighbor of [days[i - 1], days[i + 1]]) {
+      if (!neighbor || paired.has(neighbor.date)) continue;
+      if (Math.abs(daysBetween(surplusDay.date, neighbor.date)) > MAX_PAIR_DISTANCE_DAYS) continue;
+
+      const deficit = difference(neighbor);
+      if (
+        deficit < -settings.overbookedMargin &&
+        Math.abs(surplus + deficit) <= settings.wrongDateTolerance
+      ) {
+        anomalies.push({
+          kind: "wrong-date",
+          date: surplusDay.date,
+          relatedDate: neighbor.date,
+          booked: surplusDay.netBooked,
+          clocked: surplusDay.clocked,
+          difference: surplus,
+        });
+        paired.add(surplusDay.date);
+        paired.add(neighbor.date);
+        break;
+      }
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Compare booked and clocked hours per day and flag days that need attention. Days in a
+ * "wrong-date" pair are not flagged individually. Excluded days, days without cached data
+ * and the current day (still in progress) are skipped.
+ */
+export function detectAnomalies(
+  days: readonly DayStats[],
+  currentDate: string,
+  settings: AnomalySettings,
+): Anomaly[] {
+  const candidates = days.filter(
+    (day) => !day.excludedFromNet && !day.unknown && day.date < currentDate,
+  );
+  const pairs = findWrongDatePairs(candidates, settings);
+  const paired = new Set(pairs.flatMap((pair) => [pair.date, pair.relatedDate!]));
+  const anomalies: Anomaly[] = [...pairs];
+
+  for (const day of candidates) {
+    if (paired.has(day.date)) continue;
+
+    const base = { date: day.date, booked: day.netBooked, clocked: day.clocked };
+    const difference = day.netBooked - day.clocked;
+    if (day.netBooked > 0 && day.clocked === 0) {
+      anomalies.push({ ...base, kind: "booked-not-clocked", difference });
+    } else if (day.clocked > 0 && day.netBooked === 0) {
+      anomalies.push({ ...base, kind: "clocked-not-booked", difference });
+    } else if (day.clocked > 0 && difference > settings.overbookedMargin) {
+      anomalies.push({ ...base, kind: "overbooked", difference });
+    }
+  }
+
+  return anomalies.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,94 @@
+import type { BalanceConfig, Config } from "./config.js";
+import type { CacheOptions, CurrentUser, SourceStatus } from "./cache.js";
+import { loadStatsData } from "./stats.js";
+import type { DayStats } from "./output/types.js";
+
+export interface Balance {
+  booked: number;
+  clocked: number;
+}
+
+export interface BalanceState {
+  // Month (`YYYY-MM`) of the last day added to the balance
+  month: string;
+  balance: Balance;
+}
+
+export function getInitialBalanceState(settings: BalanceConfig): BalanceState {
+  const startHours = settings.startHours ?? 0;
+  return {
+    month: settings.startDate.slice(0, 7),
+    balance: { booked: startHours, clocked: startHours },
+  };
+}
+
+// Carry a balance over into the next month according to the reset/cap rules
+function carryOver(balance: Balance, settings: BalanceConfig): Balance {
+  if (settings.monthlyReset) {
+    return { booked: 0, clocked: 0 };
+  }
+  const cap = settings.monthlyCap;
+  if (cap === undefined) {
+    return balance;
+  }
+  return { booked: Math.min(balance.booked, cap), clocked: Math.min(balance.clocked, cap) };
+}
+
+/**
+ * Add each day's over/under time (booked and clocked vs. target) to a running balance.
+ * Days before the configured start date are skipped. Returns the cumulative balance
+ * after each day and the state to continue from.
+ */
+export function accumulateBalance(
+  days: readonly DayStats[],
+  settings: BalanceConfig,
+  start: BalanceState,
+): { byDate: Map<string, Balance>; state: BalanceState } {
+  const byDate = new Map<string, Balance>();
+  let { month, balance } = start;
+
+  for (const day of days) {
+    if (day.date < settings.startDate) continue;
+
+    const dayMonth = day.date.slice(0, 7);
+    if (dayMonth !== month) {
+      balance = carryOver(balance, settings);
+      month = dayMonth;
+    }
+
+    balance = {
+      booked: balance.booked + day.netBooked - day.target,
+      clocked: balance.clocked + day.clocked - day.target,
+    };
+    byDate.set(day.date, balance);
+  }
+
+  return { byDate, state: { month, balance } };
+}
+
+/**
+ * Balance state at the end of `date`, accumulated from the configured start date.
+ * Loads all days in between (from the cache where possible).
+ */
+export async function loadBalance(
+  config: Config,
+  settings: BalanceConfig,
+  currentUser: CurrentUser,
+  date: string,
+  cacheOptions: CacheOptions,
+): Promise<{ state: BalanceState; sources: SourceStatus[] }> {
+  const initial = getInitialBalanceState(settings);
+  if (date < settings.startDate) {
+    return { state: initial, sources: [] };
+  }
+
+  const { statsData, sources } = await loadStatsData(
+    config,
+    currentUser,
+    settings.startDate,
+    date,
+    cacheOptions,
+  );
+  const { state } = accumulateBalance(statsData.days, settings, initial);
+  return { state, sources };
+}
@@ -0,0 +1,623 @@
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from "fs";
+import type { Config } from "./config.js";
+import {
+  fetchCurrentUser,
+  fetchIssues,
+  fetchIssueStatuses,
+  fetchTimeEntries,
+  fetchTimeEntryCount,
+  type Issue,
+  type IssueStatus,
+  type TimeEntry,
+  type User,
+} from "./redmine.js";
+import {
+  aggregateClockEvents,
+  fetchClockedHours,
+  fetchClockEventsForRanges,
+  type ClockedHoursResult,
+  type ClockEvent,
+} from "./mssql.js";
+import { addDays, formatDate, getDatesInRange, parseDate } from "./utils.js";
+
+const CACHE_VERSION = 1;
+
+// Days this close to today are always re-synced, since bookings are still being edited
+const RECENT_DAYS = 14;
+
+// Margin for the clock difference between this machine and Redmine when asking for entries
+// changed since the last sync
+const SYNC_CLOCK_MARGIN_MS = 5 * 60 * 1000;
+
+// Issue details (subject, status, ...) are re-fetched once they are older than this
+const ISSUE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type CacheSource = "redmine" | "timelogger";
+
+interface CachedDay<T> {
+  syncedAt: string;
+  items: T[];
+}
+
+interface CacheFile<T> {
+  version: number;
+  source: CacheSource;
+  // Identifies the server the data came from, so a changed config never serves stale data
+  origin: string;
+  userId: string;
+  days: Record<string, CachedDay<T>>;
+}
+
+export interface CacheOptions {
+  useCache: boolean;
+  refresh: boolean;
+  // Never contact the servers, render from cached data only
+  offline: boolean;
+  // Why the cache is used when offline (defaults to "offline mode")
+  offlineReason?: string;
+}
+
+export interface CurrentUser {
+  user: User;
+  // False when the cached user had to be used because Redmine was unreachable
+  live: boolean;
+  reason?: string;
+}
+
+export interface SourceStatus {
+  source: CacheSource;
+  // False when cached data was used instead of the server
+  live: boolean;
+  // Last sync of the cached data used, if not live
+  asOf?: string;
+  // Days in the range without any cached data, if not live
+  uncachedDays: number;
+  uncachedDates?: string[];
+  reason?: string;
+}
+
+export interface CacheFileStatus {
+  file: string;
+  source: CacheSource;
+  origin: string;
+  userId: string;
+  dayCount: number;
+  itemCount: number;
+  firstDay?: string;
+  lastDay?: string;
+  lastSync?: string;
+  sizeBytes: number;
+}
+
+// Resolved on each use, like the config path, so a changed XDG_CACHE_HOME is picked up
+export function getCacheDir(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "whstats");
+}
+
+// Short ID of the server in cache file names, so caches of several profiles live side by side
+function getOriginKey(origin: string): string {
+  return createHash("sha256").update(origin).digest("hex").slice(0, 8);
+}
+
+function getCacheFile(source: CacheSource, origin: string, userId: string): string {
+  return join(getCacheDir(), `${source}-${getOriginKey(origin)}-${userId}.json`);
+}
+
+function readCacheFile<T>(source: CacheSource, origin: string, userId: string): CacheFile<T> {
+  const empty: CacheFile<T> = { version: CACHE_VERSION, source, origin, userId, days: {} };
+  const path = getCacheFile(source, origin, userId);
+  if (!existsSync(path)) return empty;
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as CacheFile<T>;
+    if (parsed.version !== CACHE_VERSION || parsed.origin !== origin) {
+      return empty;
+    }
+    return parsed;
+  } catch {
+    return empty;
+  }
+}
+
+function ensureCacheDir(): void {
+  const dir = getCacheDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+}
+
+function writeCacheFile<T>(cache: CacheFile<T>): void {
+  ensureCacheDir();
+  writeFileSync(getCacheFile(cache.source, cache.origin, cache.userId), JSON.stringify(cache), {
+    mode: 0o600,
+  });
+}
+
+// Split sorted dates into contiguous { from, to } runs
+function toRuns(dates: readonly string[]): Array<{ from: string; to: string }> {
+  const runs: Array<{ from: string; to: string }> = [];
+  for (const date of dates) {
+    const last = runs[runs.length - 1];
+    const lastDate = last ? parseDate(last.to) : null;
+    if (last && lastDate && formatDate(addDays(lastDate, 1)) === date) {
+      last.to = date;
+    } else {
+      runs.push({ from: date, to: date });
+    }
+  }
+  return runs;
+}
+
+function getStaleDates<T>(
+  cache: CacheFile<T>,
+  dates: readonly string[],
+  refresh: boolean,
+): string[] {
+  const recentFrom = formatDate(addDays(new Date(), -RECENT_DAYS));
+  return dates.filter((date) => refresh || !cache.days[date] || date >= recentFrom);
+}
+
+function storeDays<T>(
+  cache: CacheFile<T>,
+  dates: readonly string[],
+  items: readonly T[],
+  getDate: (item: T) => string,
+): void {
+  const syncedAt = new Date().toISOString();
+  const byDate = new Map<string, T[]>(dates.map((date) => [date, []]));
+  for (const item of items) {
+    byDate.get(getDate(item))?.push(item);
+  }
+  for (const [date, dayItems] of byDate) {
+    cache.days[date] = { syncedAt, items: dayItems };
+  }
+}
+
+function getLastSync<T>(cache: CacheFile<T>, dates: readonly string[]): string | undefined {
+  let lastSync: string | undefined;
+  for (const date of dates) {
+    const syncedAt = cache.days[date]?.syncedAt;
+    if (syncedAt && (!lastSync || syncedAt > lastSync)) {
+      lastSync = syncedAt;
+    }
+  }
+  return lastSync;
+}
+
+function getFirstSync<T>(cache: CacheFile<T>, dates: readonly string[]): string | undefined {
+  let firstSync: string | undefined;
+  for (const date of dates) {
+    const syncedAt = cache.days[date]?.syncedAt;
+    if (syncedAt && (!firstSync || syncedAt < firstSync)) {
+      firstSync = syncedAt;
+    }
+  }
+  return firstSync;
+}
+
+// Whether an entry was changed after the day was synced, allowing for clock differences
+function isChangedSinceSync<T>(day: CachedDay<T> | undefined, updatedOn: string): boolean {
+  if (!day) return true;
+  return !(Date.parse(updatedOn) < Date.parse(day.syncedAt) - SYNC_CLOCK_MARGIN_MS);
+}
+
+// Network failures (as opposed to e.g. authentication errors) trigger the offline fallback
+function isUnreachableError(error: unknown): boolean {
+  // fetch() rejects with a TypeError when the host can't be reached
+  if (error instanceof TypeError) return true;
+  if (!(error instanceof Error)) return false;
+  const code = (error as { code?: string }).code ?? "";
+  return (
+    error.name === "ConnectionError" ||
+    ["ESOCKET", "ETIMEOUT", "ECONNREFUSED", "ENOTFOUND", "EHOSTUNREACH"].includes(code)
+  );
+}
+
+function readFromCache<T>(
+  cache: CacheFile<T>,
+  dates: readonly string[],
+  reason: string,
+): { items: T[]; status: SourceStatus } {
+  const uncachedDates = dates.filter((date) => !cache.days[date]);
+  return {
+    items: dates.flatMap((date) => cache.days[date]?.items ?? []),
+    status: {
+      source: cache.source,
+      live: false,
+      asOf: getLastSync(cache, dates),
+      uncachedDays: uncachedDates.length,
+      uncachedDates,
+      reason,
+    },
+  };
+}
+
+function liveStatus(source: CacheSource): SourceStatus {
+  return { source, live: true, uncachedDays: 0 };
+}
+
+/**
+ * Combine the status of sources loaded for several ranges: a source is stale if cached
+ * data was used for any of them, as of the oldest sync.
+ */
+export function mergeSourceStatus(
+  ...lists: ReadonlyArray<readonly SourceStatus[]>
+): SourceStatus[] {
+  const merged = new Map<CacheSource, SourceStatus>();
+  for (const status of lists.flat()) {
+    const current = merged.get(status.source);
+    if (!current || (current.live && !status.live)) {
+      merged.set(status.source, status);
+    } else if (!current.live && !status.live) {
+      const syncs = [current.asOf, status.asOf].filter((asOf) => asOf !== undefined).sort();
+      merged.set(status.source, {
+        ...current,
+        asOf: syncs[0],
+        uncachedDays: current.uncachedDays + status.uncachedDays,
+        uncachedDates: [...(current.uncachedDates ?? []), ...(status.uncachedDates ?? [])],
+      });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Fall back to cached data if a source can't be reached. Other errors, and unreachable
+ * sources without any cached data for the range, are rethrown.
+ */
+function fallbackToCache<T>(
+  error: unknown,
+  cache: CacheFile<T>,
+  dates: readonly string[],
+): { items: T[]; status: SourceStatus } {
+  const hasCachedData = dates.some((date) => cache.days[date] !== undefined);
+  if (!isUnreachableError(error) || !hasCachedData) {
+    throw error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return readFromCache(cache, dates, `unreachable (${message})`);
+}
+
+/**
+ * Resolve the Redmine user for the configured API key. The user is cached so reports can
+ * be rendered offline; `live` is false when the cached user had to be used.
+ */
+export async function loadCurrentUser(config: Config, options: CacheOptions): Promise<CurrentUser> {
+  const path = join(getCacheDir(), `current-user-${getOriginKey(config.redmineUrl)}.json`);
+  const readCached = (): User | null => {
+    if (!existsSync(path)) return null;
+    try {
+      const cached = JSON.parse(readFileSync(path, "utf-8")) as { origin: string; user: User };
+      return cached.origin === config.redmineUrl ? cached.user : null;
+    } catch {
+      return null;
+    }
+  };
+
+  if (options.offline) {
+    const cached = readCached();
+    if (!cached) {
+      throw new Error("No cached Redmine user found. Run whstats once while online.");
+    }
+    return { user: cached, live: false };
+  }
+
+  try {
+    const user = await fetchCurrentUser(config);
+    if (options.useCache) {
+      ensureCacheDir();
+      writeFileSync(path, JSON.stringify({ origin: config.redmineUrl, user }), { mode: 0o600 });
+    }
+    return { user, live: true };
+  } catch (error) {
+    const cached = options.useCache && isUnreachableError(error) ? readCached() : null;
+    if (!cached) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    return { user: cached, live: false, reason: `unreachable (${message})` };
+  }
+}
+
+/**
+ * Load Redmine time entries for a range, serving older days from the local cache. Recent
+ * days and days not cached yet are fetched. Cached days are re-fetched if entries on them
+ * were created or changed since they were synced (by `updated_on`, which also covers
+ * entries moved away from a cached day), or if the number of entries on the server no
+ * longer matches (entries were deleted).
+ */
+export async function loadTimeEntries(
+  config: Config,
+  userId: number,
+  from: string,
+  to: string,
+  options: CacheOptions,
+): Promise<{ entries: TimeEntry[]; source: SourceStatus }> {
+  if (!options.useCache) {
+    const entries = await fetchTimeEntries(config, userId, from, to);
+    return { entries, source: liveStatus("redmine") };
+  }
+
+  const cache = readCacheFile<TimeEntry>("redmine", config.redmineUrl, String(userId));
+  const dates = getDatesInRange(from, to);
+
+  if (options.offline) {
+    const reason = options.offlineReason ?? "offline mode";
+    const { items, status } = readFromCache(cache, dates, reason);
+    return { entries: items, source: status };
+  }
+
+  try {
+    const stale = new Set(getStaleDates(cache, dates, options.refresh));
+    const cachedDateById = new Map<number, string>();
+    for (const date of dates) {
+      for (const entry of cache.days[date]?.items ?? []) cachedDateById.set(entry.id, date);
+    }
+
+    for (const run of toRuns(dates.filter((date) => !stale.has(date)))) {
+      const runDates = getDatesInRange(run.from, run.to);
+      const firstSync = getFirstSync(cache, runDates)!;
+      const since = new Date(Date.parse(firstSync) - SYNC_CLOCK_MARGIN_MS).toISOString();
+      const updated = await fetchTimeEntries(config, userId, run.from, run.to, since);
+      for (const entry of updated) {
+        const cachedDate = cachedDateById.get(entry.id);
+        for (const date of [entry.spent_on, cachedDate]) {
+          if (date && isChangedSinceSync(cache.days[date], entry.updated_on)) stale.add(date);
+        }
+      }
+
+      const cachedCount = runDates.reduce(
+        (sum, date) => sum + (cache.days[date]?.items.length ?? 0),
+        0,
+      );
+      const remoteCount = await fetchTimeEntryCount(config, userId, run.from, run.to);
+      if (remoteCount !== cachedCount) {
+        for (const date of runDates) stale.add(date);
+      }
+    }
+
+    const staleDates = dates.filter((date) => stale.has(date));
+    for (const run of toRuns(staleDates)) {
+      const entries = await fetchTimeEntries(config, userId, run.from, run.to);
+      storeDays(cache, getDatesInRange(run.from, run.to), entries, (entry) => entry.spent_on);
+    }
+
+    if (staleDates.length > 0) {
+      writeCacheFile(cache);
+    }
+  } catch (error) {
+    const { items, status } = fallbackToCache(error, cache, dates);
+    return { entries: items, source: status };
+  }
+
+  return {
+    entries: dates.flatMap((date) => cache.days[date]?.items ?? []),
+    source: liveStatus("redmine"),
+  };
+}
+
+/**
+ * Load clocked hours for a range, serving older days from the local cache. Only recent
+ * days and days not cached yet are queried from the timelogger database.
+ */
+export async function loadClockedHours(
+  config: Config,
+  from: string,
+  to: string,
+  options: CacheOptions,
+): Promise<{ clocked: ClockedHoursResult; source: SourceStatus }> {
+  if (!options.useCache) {
+    const clocked = await fetchClockedHours(config, from, to);
+    return { clocked, source: liveStatus("timelogger") };
+  }
+
+  const origin = `${config.mssqlServer}/${config.mssqlDatabase}`;
+  const cache = readCacheFile<ClockEvent>("timelogger", origin, config.slackUserId);
+  const dates = getDatesInRange(from, to);
+  const sortEvents = (events: ClockEvent[]) => events.sort((a, b) => a.time.localeCompare(b.time));
+
+  // Without a connection the running clock can only be derived from the cached events
+  const offlineStatus = { today: formatDate(new Date()), isClockRunningToday: false };
+
+  if (options.offline) {
+    const { items, status } = readFromCache(cache, dates, "offline mode");
+    return { clocked: aggregateClockEvents(sortEvents(items), offlineStatus), source: status };
+  }
+
+  try {
+    const staleDates = getStaleDates(cache, dates, options.refresh);
+    const { events, status } = await fetchClockEventsForRanges(config, toRuns(staleDates));
+    storeDays(cache, staleDates, events, (event) => formatDate(new Date(event.time)));
+    writeCacheFile(cache);
+
+    const rangeEvents = sortEvents(dates.flatMap((date) => cache.days[date]?.items ?? []));
+    return {
+      clocked: aggregateClockEvents(rangeEvents, status),
+      source: liveStatus("timelogger"),
+    };
+  } catch (error) {
+    const { items, status } = fallbackToCache(error, cache, dates);
+    return { clocked: aggregateClockEvents(sortEvents(items), offlineStatus), source: status };
+  }
+}
+
+interface IssueCacheFile {
+  version: number;
+  origin: string;
+  issues: Record<string, { syncedAt: string; issue: Issue }>;
+}
+
+interface IssueStatusCacheFile {
+  version: number;
+  origin: string;
+  syncedAt: string;
+  statuses: IssueStatus[];
+}
+
+/**
+ * Load the issue statuses, cached for a day like issue details. Unreachable Redmine (or
+ * offline mode) falls back to the cached statuses, if any.
+ */
+async function loadIssueStatuses(config: Config, options: CacheOptions): Promise<IssueStatus[]> {
+  if (!options.useCache) {
+    return fetchIssueStatuses(config);
+  }
+
+  const path = join(getCacheDir(), `issue-statuses-${getOriginKey(config.redmineUrl)}.json`);
+  let cache: IssueStatusCacheFile | null = null;
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as IssueStatusCacheFile;
+      if (parsed.version === CACHE_VERSION && parsed.origin === config.redmineUrl) {
+        cache = parsed;
+      }
+    } catch {
+      // Unreadable cache files are replaced below
+    }
+  }
+
+  const staleBefore = new Date(Date.now() - ISSUE_MAX_AGE_MS).toISOString();
+  if (options.offline || (cache && !options.refresh && cache.syncedAt >= staleBefore)) {
+    return cache?.statuses ?? [];
+  }
+
+  try {
+    const statuses = await fetchIssueStatuses(config);
+    const file: IssueStatusCacheFile = {
+      version: CACHE_VERSION,
+      origin: config.redmineUrl,
+      syncedAt: new Date().toISOString(),
+      statuses,
+    };
+    ensureCacheDir();
+    writeFileSync(path, JSON.stringify(file), { mode: 0o600 });
+    return statuses;
+  } catch (error) {
+    if (!isUnreachableError(error)) throw error;
+    return cache?.statuses ?? [];
+  }
+}
+
+/**
+ * Load details for the given issues, fetching those not cached or older than a day.
+ * Unreachable Redmine (or offline mode) falls back to whatever is cached. Redmine before
+ * 5.1 doesn't say whether an issue's status is closed; that is taken from the issue
+ * statuses then.
+ */
+export async function loadIssues(
+  config: Config,
+  issueIds: readonly number[],
+  options: CacheOptions,
+): Promise<Map<number, Issue>> {
+  const issues = await loadIssueDetails(config, issueIds, options);
+  const unknown = [...issues.values()].filter(
+    (issue) => issue.status && issue.status.is_closed === undefined,
+  );
+  if (unknown.length === 0) return issues;
+
+  const statuses = new Map(
+    (await loadIssueStatuses(config, options)).map((status) => [status.id, status]),
+  );
+  for (const issue of unknown) {
+    const status = statuses.get(issue.status!.id);
+    if (status) {
+      issue.status!.is_closed = status.is_closed === true;
+    }
+  }
+  return issues;
+}
+
+async function loadIssueDetails(
+  config: Config,
+  issueIds: readonly number[],
+  options: CacheOptions,
+): Promise<Map<number, Issue>> {
+  const ids = Array.from(new Set(issueIds)).sort((a, b) => a - b);
+  if (ids.length === 0) return new Map();
+
+  if (!options.useCache) {
+    const issues = await fetchIssues(config, ids);
+    return new Map(issues.map((issue) => [issue.id, issue]));
+  }
+
+  const path = join(getCacheDir(), `issues-${getOriginKey(config.redmineUrl)}.json`);
+  let cache: IssueCacheFile = { version: CACHE_VERSION, origin: config.redmineUrl, issues: {} };
+  if (existsSync(path)) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as IssueCacheFile;
+      if (parsed.version === CACHE_VERSION && parsed.origin === config.redmineUrl) {
+        cache = parsed;
+      }
+    } catch {
+      // Unreadable cache files are replaced below
+    }
+  }
+
+  const readCached = () =>
+    new Map(
+      ids.flatMap((id) => {
+        const cached = cache.issues[String(id)];
+        return cached ? [[id, cached.issue] as const] : [];
+      }),
+    );
+
+  if (options.offline) {
+    return readCached();
+  }
+
+  const staleBefore = new Date(Date.now() - ISSUE_MAX_AGE_MS).toISOString();
+  const staleIds = ids.filter((id) => {
+    const cached = cache.issues[String(id)];
+    return options.refresh || !cached || cached.syncedAt < staleBefore;
+  });
+
+  if (staleIds.length > 0) {
+    try {
+      const issues = await fetchIssues(config, staleIds);
+      const syncedAt = new Date().toISOString();
+      for (const issue of issues) {
+        cache.issues[String(issue.id)] = { syncedAt, issue };
+      }
+      ensureCacheDir();
+      writeFileSync(path, JSON.stringify(cache), { mode: 0o600 });
+    } catch (error) {
+      if (!isUnreachableError(error)) throw error;
+    }
+  }
+
+  return readCached();
+}
+
+export function getCacheStatus(): CacheFileStatus[] {
+  const dir = getCacheDir();
+  if (!existsSync(dir)) return [];
+
+  const result: CacheFileStatus[] = [];
+  for (const name of readdirSync(dir).sort()) {
+    if (!/^(redmine|timelogger)-.+\.json$/.test(name)) continue;
+    const path = join(dir, name);
+    try {
+      const cache = JSON.parse(readFileSync(path, "utf-8")) as CacheFile<unknown>;
+      const days = Object.keys(cache.days).sort();
+      const syncTimes = Object.values(cache.days)
+        .map((day) => day.syncedAt)
+        .sort();
+      result.push({
+        file: path,
+        source: cache.source,
+        origin: cache.origin,
+        userId: cache.userId,
+        dayCount: days.length,
+        itemCount: Object.values(cache.days).reduce((sum, day) => sum + day.items.length, 0),
+        firstDay: days[0],
+        lastDay: days[days.length - 1],
+        lastSync: syncTimes[syncTimes.length - 1],
+        sizeBytes: statSync(path).size,
+      });
+    } catch {
+      // Ignore unreadable files; they are replaced on the next sync
+    }
+  }
+  return result;
+}
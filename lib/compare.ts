@@ -0,0 +1,90 @@
+import { addDays, formatDate, parseDate } from "./utils.js";
+import type { SummaryData } from "./output/types.js";
+
+export const COMPARE_MODES = ["previous", "last-year"] as const;
+
+export type CompareMode = (typeof COMPARE_MODES)[number];
+
+export interface ComparisonDeltas {
+  // Hours
+  booked: number;
+  clocked: number;
+  // Percentage points
+  efficiency: number;
+  workdays: number;
+}
+
+export interface Comparison {
+  mode: CompareMode;
+  from: string;
+  to: string;
+  // Summary of the earlier range
+  summary: SummaryData;
+  // Current minus earlier values
+  deltas: ComparisonDeltas;
+}
+
+// Shift by whole months, clamping to the last day of shorter months
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Number of whole calendar months the range spans, or 0 if it is not month-aligned
+function getWholeMonths(from: Date, to: Date): number {
+  if (from.getDate() !== 1 || addDays(to, 1).getDate() !== 1) return 0;
+  return (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+}
+
+/**
+ * The earlier range to compare with: the preceding range of the same length ("previous")
+ * or the same dates a year earlier ("last-year"). Month-aligned ranges (months, quarters,
+ * years) compare with the preceding calendar months. Ranges reaching into the future are
+ * compared up to the same point, e.g. October 1-19 with September 1-19.
+ */
+export function getComparisonRange(
+  fromDate: string,
+  toDate: string,
+  mode: CompareMode,
+  currentDate: string,
+): { from: string; to: string } {
+  const from = parseDate(fromDate)!;
+  const to = parseDate(toDate)!;
+  const elapsedTo = toDate > currentDate && fromDate <= currentDate ? parseDate(currentDate)! : to;
+
+  if (mode === "last-year") {
+    return { from: formatDate(addMonths(from, -12)), to: formatDate(addMonths(elapsedTo, -12)) };
+  }
+
+  const months = getWholeMonths(from, to);
+  if (months > 0) {
+    const earlierEnd = addDays(from, -1);
+    const earlierTo = elapsedTo < to ? addMonths(elapsedTo, -months) : earlierEnd;
+    return { from: formatDate(addMonths(from, -months)), to: formatDate(earlierTo) };
+  }
+
+  const length = daysBetween(from, to) + 1;
+  return {
+    from: formatDate(addDays(from, -length)),
+    to: formatDate(addDays(elapsedTo, -length)),
+  };
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+export function compareSummaries(current: SummaryData, earlier: SummaryData): ComparisonDeltas {
+  return {
+    booked: roundHours(current.booked.total - earlier.booked.total),
+    clocked: roundHours(current.clocked.total - earlier.clocked.total),
+    efficiency: current.percentages.efficiency - earlier.percentages.efficiency,
+    workdays: current.workdays - earlier.workdays,
+  };
+}
@@ -0,0 +1,142 @@
+import type { Config } from "./config.js";
+import { summarizeSessions } from "./sessions.js";
+import type { DayStats } from "./output/types.js";
+
+export interface BreakRule {
+  // Required break once the working time exceeds this many hours
+  afterHours: number;
+  minutes: number;
+}
+
+export interface ComplianceRules {
+  breaks: BreakRule[];
+  // Breaks shorter than this don't count towards the required break time
+  minBreakMinutes: number;
+  maxDailyHours: number;
+  minRestHours: number;
+}
+
+// Defaults follow the German Arbeitszeitgesetz (ArbZG §§ 3-5)
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  breaks: [
+    { afterHours: 6, minutes: 30 },
+    { afterHours: 9, minutes: 45 },
+  ],
+  minBreakMinutes: 15,
+  maxDailyHours: 10,
+  minRestHours: 11,
+};
+
+export type ComplianceRuleName = "break" | "daily-max" | "rest";
+
+export interface ComplianceViolation {
+  date: string;
+  rule: ComplianceRuleName;
+  // Break and rest violations: hours taken vs. required; daily max: hours worked vs. allowed
+  actual: number;
+  limit: number;
+  // Missing break/rest or excess working time, in hours
+  amount: number;
+  workedHours: number;
+}
+
+export interface ComplianceReport {
+  rules: ComplianceRules;
+  checkedDays: number;
+  violations: ComplianceViolation[];
+}
+
+export function resolveComplianceRules(config: Config): ComplianceRules {
+  const rules = { ...DEFAULT_COMPLIANCE_RULES, ...config.compliance };
+  return {
+    ...rules,
+    breaks: [...rules.breaks].sort((a, b) => a.afterHours - b.afterHours),
+  };
+}
+
+function getRequiredBreakHours(workedHours: number, rules: ComplianceRules): number {
+  let minutes = 0;
+  for (const rule of rules.breaks) {
+    if (workedHours > rule.afterHours) {
+      minutes = Math.max(minutes, rule.minutes);
+    }
+  }
+  return minutes / 60;
+}
+
+function hoursBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Check each day's clock sessions against the rules. Days before `fromDate` are only
+ * used as the previous day for the rest period check.
+ */
+export function checkCompliance(
+  days: readonly DayStats[],
+  rules: ComplianceRules,
+  fromDate: string,
+): ComplianceReport {
+  const violations: ComplianceViolation[] = [];
+  let checkedDays = 0;
+  let previousLastOut: string | undefined;
+
+  for (const day of days) {
+    if (day.sessions.length === 0) continue;
+
+    const summary = summarizeSessions(day.sessions);
+    const restStart = previousLastOut;
+    previousLastOut = summary.lastOut;
+    if (day.date < fromDate) continue;
+
+    checkedDays++;
+    const workedHours = summary.clockedHours;
+    const isRunning = summary.lastOut === undefined;
+
+    // A break can still be taken while the clock is running
+    if (!isRunning) {
+      const breakHours = summary.breaks
+        .filter((gap) => gap.hours * 60 >= rules.minBreakMinutes)
+        .reduce((sum, gap) => sum + gap.hours, 0);
+      const requiredHours = getRequiredBreakHours(workedHours, rules);
+      if (breakHours < requiredHours) {
+        violations.push({
+          date: day.date,
+          rule: "break",
+          actual: breakHours,
+          limit: requiredHours,
+          amount: requiredHours - breakHours,
+          workedHours,
+        });
+      }
+    }
+
+    if (workedHours > rules.maxDailyHours) {
+      violations.push({
+        date: day.date,
+        rule: "daily-max",
+        actual: workedHours,
+        limit: rules.maxDailyHours,
+        amount: workedHours - rules.maxDailyHours,
+        workedHours,
+      });
+    }
+
+    if (restStart && summary.firstIn) {
+      const restHours = hoursBetween(restStart, summary.firstIn);
+      // Sessions are split at midnight; a zero gap means work continued overnight
+      if (restHours > 0 && restHours < rules.minRestHours) {
+        violations.push({
+          date: day.date,
+          rule: "rest",
+          actual: restHours,
+          limit: rules.minRestHours,
+          amount: rules.minRestHours - restHours,
+          workedHours,
+        });
+      }
+    }
+  }
+
+  return { rules, checkedDays, violations };
+}
@@ -1,10 +1,57 @@
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from "fs";
 import * as readline from "readline";
+import type { AnomalySettings } from "./anomalies.js";
+import type { BreakRule, ComplianceRules } from "./compliance.js";
+import { GERMAN_STATES, isValidState } from "./holidays.js";
+import { LINT_RULES, type LintRuleName } from "./lint.js";
+import { parseDate } from "./utils.js";
 
 const CONFIG_DIR = join(homedir(), ".config", "whstats");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+const ENV_PREFIX = "WHSTATS_";
+
+export interface CustomHoliday {
+  // `YYYY-MM-DD` for a one-off day, `MM-DD` for a day off every year
+  date: string;
+  name?: string;
+}
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export interface WorkSchedule {
+  // First day (`YYYY-MM-DD`) the schedule applies; it stays valid until the next one starts
+  effectiveFrom: string;
+  hours: Partial<Record<Weekday, number>>;
+}
+
+export interface BalanceConfig {
+  // First day (`YYYY-MM-DD`) counted towards the overtime balance
+  startDate: string;
+  // Balance carried in from before the start date
+  startHours?: number;
+  // Drop the balance to 0 at the start of each month
+  monthlyReset?: boolean;
+  // Maximum positive balance carried over into the next month
+  monthlyCap?: number;
+}
+
+export interface LintConfig {
+  // Rules to skip, e.g. ["weekend"]
+  disabledRules?: LintRuleName[];
+  // Booking increment in hours (defaults to 0.25)
+  increment?: number;
+}
+
+export interface TeamMember {
+  name: string;
+  redmineUserId: number;
+  // The member's user ID in the timelogger database (their slackUserId)
+  timeloggerUserId: string;
+  // Defaults to the config's targetHoursPerDay
+  targetHoursPerDay?: number;
+}
 
 export interface Config {
   redmineApiKey: string;
@@ -16,6 +63,16 @@ export interface Config {
   slackUserId: string;
   targetHoursPerDay?: number;
   ignoredRedmineTicketIds?: number[];
+  holidayState?: string;
+  customHolidays?: CustomHoliday[];
+  workSchedule?: WorkSchedule[];
+  nonWorkingDays?: string[];
+  compliance?: Partial<ComplianceRules>;
+  balance?: BalanceConfig;
+  lint?: LintConfig;
+  anomalies?: Partial<AnomalySettings>;
+  // Roster for the team report
+  team?: TeamMember[];
 }
 
 function parseIgnoredTicketIds(input: string): { ids: number[]; invalid: string[] } {
@@ -43,49 +100,597 @@ function parseIgnoredTicketIds(input: string): { ids: number[]; invalid: string[
   return { ids: Array.from(new Set(ids)), invalid };
 }
 
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function normalizeComplianceRules(
+  rules: Partial<ComplianceRules> | undefined,
+): Partial<ComplianceRules> | undefined {
+  if (typeof rules !== "object" || rules === null) return undefined;
+
+  const result: Partial<ComplianceRules> = {};
+  if (Array.isArray(rules.breaks)) {
+    result.breaks = rules.breaks.filter(
+      (rule): rule is BreakRule =>
+        isNonNegativeNumber(rule?.afterHours) && isNonNegativeNumber(rule.minutes),
+    );
+  }
+  if (isNonNegativeNumber(rules.minBreakMinutes)) result.minBreakMinutes = rules.minBreakMinutes;
+  if (isNonNegativeNumber(rules.maxDailyHours)) result.maxDailyHours = rules.maxDailyHours;
+  if (isNonNegativeNumber(rules.minRestHours)) result.minRestHours = rules.minRestHours;
+  return result;
+}
+
+function normalizeBalanceConfig(balance: BalanceConfig | undefined): BalanceConfig | undefined {
+  if (typeof balance?.startDate !== "string" || parseDate(balance.startDate) === null) {
+    return undefined;
+  }
+  return {
+    startDate: balance.startDate,
+    startHours: Number.isFinite(balance.startHours) ? balance.startHours : undefined,
+    monthlyReset: balance.monthlyReset === true ? true : undefined,
+    monthlyCap: isNonNegativeNumber(balance.monthlyCap) ? balance.monthlyCap : undefined,
+  };
+}
+
+function normalizeLintConfig(lint: LintConfig | undefined): LintConfig | undefined {
+  if (typeof lint !== "object" || lint === null) return undefined;
+  return {
+    disabledRules: Array.isArray(lint.disabledRules)
+      ? lint.disabledRules.filter((rule) => LINT_RULES.includes(rule))
+      : undefined,
+    increment:
+      isNonNegativeNumber(lint.increment) && lint.increment > 0 ? lint.increment : undefined,
+  };
+}
+
+function normalizeAnomalySettings(
+  settings: Partial<AnomalySettings> | undefined,
+): Partial<AnomalySettings> | undefined {
+  if (typeof settings !== "object" || settings === null) return undefined;
+
+  const result: Partial<AnomalySettings> = {};
+  if (isNonNegativeNumber(settings.overbookedMargin)) {
+    result.overbookedMargin = settings.overbookedMargin;
+  }
+  if (isNonNegativeNumber(settings.wrongDateTolerance)) {
+    result.wrongDateTolerance = settings.wrongDateTolerance;
+  }
+  return result;
+}
+
+function normalizeTeam(team: TeamMember[] | undefined): TeamMember[] | undefined {
+  if (!Array.isArray(team)) return undefined;
+  return team
+    .filter(
+      (member) =>
+        typeof member?.name === "string" &&
+        member.name.trim() !== "" &&
+        Number.isInteger(member.redmineUserId) &&
+        member.redmineUserId > 0 &&
+        ["string", "number"].includes(typeof member.timeloggerUserId),
+    )
+    .map((member) => ({
+      name: member.name.trim(),
+      redmineUserId: member.redmineUserId,
+      timeloggerUserId: String(member.timeloggerUserId),
+      targetHoursPerDay: isNonNegativeNumber(member.targetHoursPerDay)
+        ? member.targetHoursPerDay
+        : undefined,
+    }));
+}
+
 function normalizeConfig(config: Config): Config {
   return {
     ...config,
     ignoredRedmineTicketIds: Array.isArray(config.ignoredRedmineTicketIds)
       ? config.ignoredRedmineTicketIds.filter((id) => Number.isInteger(id) && id > 0)
       : [],
+    holidayState: config.holidayState ? config.holidayState.trim().toUpperCase() : undefined,
+    customHolidays: Array.isArray(config.customHolidays)
+      ? config.customHolidays.filter(
+          (holiday) =>
+            typeof holiday?.date === "string" && /^(\d{4}-)?\d{2}-\d{2}$/.test(holiday.date),
+        )
+      : [],
+    workSchedule: Array.isArray(config.workSchedule)
+      ? config.workSchedule
+          .filter(
+            (schedule) =>
+              typeof schedule?.effectiveFrom === "string" &&
+              parseDate(schedule.effectiveFrom) !== null &&
+              typeof schedule.hours === "object" &&
+              schedule.hours !== null,
+          )
+          .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+      : [],
+    nonWorkingDays: Array.isArray(config.nonWorkingDays)
+      ? config.nonWorkingDays
+          .filter((day): day is string => typeof day === "string")
+          .map((day) => day.trim().toLowerCase())
+      : [],
+    compliance: normalizeComplianceRules(config.compliance),
+    balance: normalizeBalanceConfig(config.balance),
+    lint: normalizeLintConfig(config.lint),
+    anomalies: normalizeAnomalySettings(config.anomalies),
+    team: normalizeTeam(config.team),
   };
 }
 
-export function getConfigPath(): string {
-  return CONFIG_FILE;
+// Where a setting comes from: flags take precedence over environment variables, and
+// environment variables over the config file
+export type ConfigSource = "flag" | "env" | "file";
+
+type ConfigOverrides = Partial<Record<keyof Config, unknown>>;
+
+export interface ConfigField {
+  key: keyof Config;
+  label: string;
+  // Command-line flag (without the dashes); the environment variable is derived from it
+  flag: string;
+  value: string;
+  required?: boolean;
+  // Throws with a short reason if the input is invalid
+  parse: (input: string) => unknown;
 }
 
-export function configExists(): boolean {
-  return existsSync(CONFIG_FILE);
+function parseText(input: string): string {
+  const value = input.trim();
+  if (!value) {
+    throw new Error("must not be empty");
+  }
+  return value;
 }
 
-export function loadConfig(): Config | null {
-  if (!existsSync(CONFIG_FILE)) return null;
+function parsePositiveNumber(input: string): number {
+  const value = Number(input.trim());
+  if (input.trim() === "" || !Number.isFinite(value) || value <= 0) {
+    throw new Error("must be a positive number");
+  }
+  return value;
+}
+
+function parseTicketIds(input: string): number[] {
+  const { ids, invalid } = parseIgnoredTicketIds(input);
+  if (invalid.length > 0) {
+    throw new Error(`invalid ticket ID(s): ${invalid.join(", ")}`);
+  }
+  return ids;
+}
+
+function parseList(input: string): string[] {
+  return input
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+function parseHolidayState(input: string): string | undefined {
+  const state = input.trim().toUpperCase();
+  if (!state) return undefined;
+  if (!isValidState(state)) {
+    throw new Error(`unknown state, use one of ${Object.keys(GERMAN_STATES).join(", ")}`);
+  }
+  return state;
+}
+
+// Structured settings are given as JSON in the same shape as in the config file
+function parseJson(kind: "array" | "object"): (input: string) => unknown {
+  return (input) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new Error("must be valid JSON");
+    }
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      Array.isArray(value) !== (kind === "array")
+    ) {
+      throw new Error(`must be a JSON ${kind}`);
+    }
+    return value;
+  };
+}
+
+export const CONFIG_FIELDS: readonly ConfigField[] = [
+  {
+    key: "redmineUrl",
+    label: "Redmine URL",
+    flag: "redmine-url",
+    value: "<url>",
+    required: true,
+    parse: (input) => parseText(input).replace(/\/$/, ""),
+  },
+  {
+    key: "redmineApiKey",
+    label: "Redmine API Key",
+    flag: "redmine-api-key",
+    value: "<key>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "mssqlServer",
+    label: "MSSQL Server",
+    flag: "mssql-server",
+    value: "<host>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "mssqlDatabase",
+    label: "MSSQL Database",
+    flag: "mssql-database",
+    value: "<name>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "mssqlUser",
+    label: "MSSQL User",
+    flag: "mssql-user",
+    value: "<user>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "mssqlPassword",
+    label: "MSSQL Password",
+    flag: "mssql-password",
+    value: "<password>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "slackUserId",
+    label: "User ID",
+    flag: "slack-user-id",
+    value: "<id>",
+    required: true,
+    parse: parseText,
+  },
+  {
+    key: "targetHoursPerDay",
+    label: "Target hours per day",
+    flag: "target-hours-per-day",
+    value: "<hours>",
+    parse: parsePositiveNumber,
+  },
+  {
+    key: "ignoredRedmineTicketIds",
+    label: "Ignored tickets",
+    flag: "ignored-ticket-ids",
+    value: "<ids>",
+    parse: parseTicketIds,
+  },
+  {
+    key: "holidayState",
+    label: "Holiday state",
+    flag: "holiday-state",
+    value: "<state>",
+    parse: parseHolidayState,
+  },
+  {
+    key: "nonWorkingDays",
+    label: "Non-working days",
+    flag: "non-working-days",
+    value: "<days>",
+    parse: parseList,
+  },
+  {
+    key: "customHolidays",
+    label: "Custom holidays",
+    flag: "custom-holidays-json",
+    value: "<json>",
+    parse: parseJson("array"),
+  },
+  {
+    key: "workSchedule",
+    label: "Work schedule",
+    flag: "work-schedule-json",
+    value: "<json>",
+    parse: parseJson("array"),
+  },
+  {
+    key: "compliance",
+    label: "Compliance rules",
+    flag: "compliance-json",
+    value: "<json>",
+    parse: parseJson("object"),
+  },
+  {
+    key: "balance",
+    label: "Overtime balance",
+    flag: "balance-json",
+    value: "<json>",
+    parse: parseJson("object"),
+  },
+  {
+    key: "lint",
+    label: "Lint settings",
+    flag: "lint-json",
+    value: "<json>",
+    parse: parseJson("object"),
+  },
+  {
+    key: "anomalies",
+    label: "Anomaly thresholds",
+    flag: "anomalies-json",
+    value: "<json>",
+    parse: parseJson("object"),
+  },
+  { key: "team", label: "Team", flag: "team-json", value: "<json>", parse: parseJson("array") },
+];
+
+// Environment variable for a field, e.g. WHSTATS_REDMINE_URL for --redmine-url
+export function getEnvVariable(field: ConfigField): string {
+  return ENV_PREFIX + field.flag.toUpperCase().replace(/-/g, "_");
+}
+
+function parseOverride(field: ConfigField, input: string, origin: string): unknown {
+  try {
+    return field.parse(input);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid value for ${origin}: ${reason}`);
+  }
+}
+
+// Settings given as flags for this run
+let flagOverrides: ConfigOverrides = {};
+
+// Config file given with --config-file for this run
+let configFileOverride: string | undefined;
+
+/**
+ * Take config values from the parsed command-line flags. Throws if a value is invalid, so
+ * typos surface before anything runs.
+ */
+export function setConfigOverrides(values: Record<string, unknown>): void {
+  flagOverrides = {};
+  for (const field of CONFIG_FIELDS) {
+    const input = values[field.flag];
+    if (typeof input === "string") {
+      flagOverrides[field.key] = parseOverride(field, input, `--${field.flag}`);
+    }
+  }
+}
+
+export function hasConfigOverrides(): boolean {
+  return Object.keys(flagOverrides).length > 0;
+}
+
+function readEnvOverrides(): ConfigOverrides {
+  const overrides: ConfigOverrides = {};
+  for (const field of CONFIG_FIELDS) {
+    const name = getEnvVariable(field);
+    const input = process.env[name];
+    if (input !== undefined && input !== "") {
+      overrides[field.key] = parseOverride(field, input, name);
+    }
+  }
+  return overrides;
+}
+
+export function setConfigFile(path: string | undefined): void {
+  configFileOverride = path;
+}
+
+export const DEFAULT_PROFILE = "default";
+
+// Named profiles; `defaultProfile` is used unless another one is selected with --profile
+interface ConfigFile {
+  defaultProfile: string;
+  profiles: Record<string, Config>;
+}
+
+// Profile selected for this run, if any
+let selectedProfile: string | undefined;
+
+// Names of Object.prototype members such as `constructor` are reserved
+export function isValidProfileName(name: string): boolean {
+  return /^[\w.-]+$/.test(name) && !(name in Object.prototype);
+}
+
+// Profiles without a prototype, so lookups by name never find Object.prototype members
+function createProfiles(profiles: Record<string, Config> = {}): Record<string, Config> {
+  return Object.assign(Object.create(null) as Record<string, Config>, profiles);
+}
+
+export function selectProfile(name: string | undefined): void {
+  selectedProfile = name;
+}
+
+/**
+ * Read the config file. A file from before profiles existed holds a single config
+ * object, which is read as the default profile.
+ */
+function readConfigFile(): ConfigFile | null {
+  const path = getConfigPath();
+  if (!existsSync(path)) return null;
   try {
-    const content = readFileSync(CONFIG_FILE, "utf-8");
-    const parsed = JSON.parse(content) as Config;
-    return normalizeConfig(parsed);
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<ConfigFile> & Config;
+    if (typeof parsed.profiles !== "object" || parsed.profiles === null) {
+      return {
+        defaultProfile: DEFAULT_PROFILE,
+        profiles: createProfiles({ [DEFAULT_PROFILE]: parsed }),
+      };
+    }
+    const names = Object.keys(parsed.profiles);
+    const defaultProfile =
+      typeof parsed.defaultProfile === "string" && names.includes(parsed.defaultProfile)
+        ? parsed.defaultProfile
+        : (names[0] ?? DEFAULT_PROFILE);
+    return { defaultProfile, profiles: createProfiles(parsed.profiles) };
   } catch {
     return null;
   }
 }
 
-export function saveConfig(config: Config): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+function writeConfigFile(file: ConfigFile): void {
+  const path = getConfigPath();
+  if (!existsSync(dirname(path))) {
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  }
+  writeFileSync(path, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+function getProfileOrThrow(file: ConfigFile | null, name: string): Config {
+  const profile = file?.profiles[name];
+  if (!profile) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+  return profile;
+}
+
+// Profile used by this run: --profile, WHSTATS_PROFILE or the default profile
+export function getActiveProfile(): string {
+  return (
+    selectedProfile ||
+    process.env[`${ENV_PREFIX}PROFILE`] ||
+    readConfigFile()?.defaultProfile ||
+    DEFAULT_PROFILE
+  );
+}
+
+// Config file path: --config-file, WHSTATS_CONFIG_FILE or ~/.config/whstats/config.json
+export function getConfigPath(): string {
+  return configFileOverride || process.env[`${ENV_PREFIX}CONFIG_FILE`] || CONFIG_FILE;
+}
+
+export function getConfigPathSource(): Exclude<ConfigSource, "file"> | undefined {
+  if (configFileOverride) return "flag";
+  if (process.env[`${ENV_PREFIX}CONFIG_FILE`]) return "env";
+  return undefined;
+}
+
+/**
+ * The active profile with environment variables and flags applied, and the source of
+ * each setting. Null if there is neither a saved profile nor any override.
+ */
+export function resolveConfig(): {
+  config: Config;
+  sources: Partial<Record<keyof Config, ConfigSource>>;
+} | null {
+  const saved = readConfigFile()?.profiles[getActiveProfile()];
+  const env = readEnvOverrides();
+  if (!saved && Object.keys(env).length === 0 && !hasConfigOverrides()) {
+    return null;
+  }
+
+  const sources: Partial<Record<keyof Config, ConfigSource>> = {};
+  const layers: Array<[ConfigSource, ConfigOverrides]> = [
+    ["file", saved ?? {}],
+    ["env", env],
+    ["flag", flagOverrides],
+  ];
+  for (const [source, values] of layers) {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) sources[key as keyof Config] = source;
+    }
+  }
+
+  const config = { ...saved, ...env, ...flagOverrides } as Config;
+  return { config: normalizeConfig(config), sources };
+}
+
+export function loadConfig(): Config | null {
+  return resolveConfig()?.config ?? null;
+}
+
+// The active profile as saved in the config file, without overrides
+export function loadSavedConfig(): Config | null {
+  const profile = readConfigFile()?.profiles[getActiveProfile()];
+  return profile ? normalizeConfig(profile) : null;
+}
+
+// Required settings the config lacks
+export function getMissingFields(config: Partial<Config>): ConfigField[] {
+  return CONFIG_FIELDS.filter((field) => field.required && !config[field.key]);
+}
+
+/**
+ * Save the settings given as flags into the active profile, without prompting. Values
+ * not given are kept from the saved profile.
+ */
+export function saveConfigFromFlags(): Config {
+  const config = { ...loadSavedConfig(), ...flagOverrides } as Config;
+  const missing = getMissingFields(config);
+  if (missing.length > 0) {
+    const flags = missing.map((field) => `--${field.flag}`).join(", ");
+    throw new Error(`Missing required settings: ${flags}`);
   }
-  writeFileSync(CONFIG_FILE, JSON.stringify(normalizeConfig(config), null, 2), { mode: 0o600 });
+  saveConfig(config);
+  return config;
+}
+
+// Save the config as the active profile; the first saved profile becomes the default
+export function saveConfig(config: Config): void {
+  const file = readConfigFile() ?? {
+    defaultProfile: getActiveProfile(),
+    profiles: createProfiles(),
+  };
+  file.profiles[getActiveProfile()] = normalizeConfig(config);
+  writeConfigFile(file);
 }
 
 export function deleteConfig(): boolean {
-  if (existsSync(CONFIG_FILE)) {
-    unlinkSync(CONFIG_FILE);
+  const path = getConfigPath();
+  if (existsSync(path)) {
+    unlinkSync(path);
     return true;
   }
   return false;
 }
 
+export function listProfiles(): { names: string[]; defaultProfile: string } {
+  const file = readConfigFile();
+  return {
+    names: Object.keys(file?.profiles ?? {}),
+    defaultProfile: file?.defaultProfile ?? DEFAULT_PROFILE,
+  };
+}
+
+export function copyProfile(source: string, target: string): void {
+  const file = readConfigFile();
+  const config = getProfileOrThrow(file, source);
+  if (file!.profiles[target]) {
+    throw new Error(`Profile "${target}" already exists`);
+  }
+  file!.profiles[target] = structuredClone(config);
+  writeConfigFile(file!);
+}
+
+/**
+ * Remove a profile. If it was the default, the first remaining profile becomes the
+ * default; removing the last profile deletes the config file.
+ */
+export function removeProfile(name: string): void {
+  const file = readConfigFile();
+  getProfileOrThrow(file, name);
+  delete file!.profiles[name];
+
+  const remaining = Object.keys(file!.profiles);
+  if (remaining.length === 0) {
+    deleteConfig();
+    return;
+  }
+  if (file!.defaultProfile === name) {
+    file!.defaultProfile = remaining[0]!;
+  }
+  writeConfigFile(file!);
+}
+
+export function setDefaultProfile(name: string): void {
+  const file = readConfigFile();
+  getProfileOrThrow(file, name);
+  file!.defaultProfile = name;
+  writeConfigFile(file!);
+}
+
 function prompt(rl: readline.Interface, question: string, defaultValue?: string): Promise<string> {
   const displayQuestion = defaultValue ? `${question} [${defaultValue}]: ` : `${question}: `;
 
@@ -157,7 +762,9 @@ export async function promptForConfig(existingConfig?: Config | null): Promise<C
   console.log("  Enter your credentials (press Enter to keep existing values)\n");
 
   try {
+    // Settings that are only editable in the config file are carried over as-is
     const config: Config = {
+      ...existingConfig,
       redmineUrl: await prompt(
         rl,
         "  Redmine URL",
@@ -198,18 +805,24 @@ export async function promptForConfig(existingConfig?: Config | null): Promise<C
     }
     config.ignoredRedmineTicketIds = parsedTickets.ids;
 
+    const stateInput = await prompt(
+      rl,
+      "  German federal state for public holidays (e.g. BY, NW; empty for nationwide only)",
+      existingConfig?.holidayState ?? "",
+    );
+    if (stateInput && !isValidState(stateInput)) {
+      console.log(
+        `  Warning: Unknown state "${stateInput}", using nationwide holidays only. Valid: ${Object.keys(GERMAN_STATES).join(", ")}`,
+      );
+      config.holidayState = undefined;
+    } else {
+      config.holidayState = stateInput ? stateInput.toUpperCase() : undefined;
+    }
+
     rl.close();
 
     // Validate required fields
-    const missingFields: string[] = [];
-    if (!config.redmineUrl) missingFields.push("Redmine URL");
-    if (!config.redmineApiKey) missingFields.push("Redmine API Key");
-    if (!config.mssqlServer) missingFields.push("MSSQL Server");
-    if (!config.mssqlDatabase) missingFields.push("MSSQL Database");
-    if (!config.mssqlUser) missingFields.push("MSSQL User");
-    if (!config.mssqlPassword) missingFields.push("MSSQL Password");
-    if (!config.slackUserId) missingFields.push("User ID");
-
+    const missingFields = getMissingFields(config).map((field) => field.label);
     if (missingFields.length > 0) {
       console.error(`\n  Error: Missing required fields: ${missingFields.join(", ")}`);
       process.exit(1);
@@ -232,7 +845,7 @@ export async function promptForConfig(existingConfig?: Config | null): Promise<C
     config.redmineUrl = config.redmineUrl.replace(/\/$/, "");
 
     saveConfig(config);
-    console.log(`\n  Config saved to ${CONFIG_FILE}\n`);
+    console.log(`\n  Config saved to ${getConfigPath()} (profile "${getActiveProfile()}")\n`);
 
     return config;
   } catch (error) {
@@ -242,12 +855,36 @@ export async function promptForConfig(existingConfig?: Config | null): Promise<C
 }
 
 export function getConfigOrExit(): Config {
-  const config = loadConfig();
+  const file = readConfigFile();
+  const profile = getActiveProfile();
+  if (file !== null && !file.profiles[profile] && profile !== file.defaultProfile) {
+    console.error(`\n  Profile "${profile}" does not exist.\n`);
+    console.error("  Run 'whstats profiles' to see the configured profiles.\n");
+    process.exit(1);
+  }
+
+  let config: Config | null;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    console.error(`\n  Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
   if (config) {
-    return config;
+    const missing = getMissingFields(config);
+    if (missing.length === 0) {
+      return config;
+    }
+    console.error("\n  Incomplete configuration. Missing:\n");
+    for (const field of missing) {
+      console.error(`    ${field.label}: --${field.flag} or ${getEnvVariable(field)}`);
+    }
+    console.error("\n  Run 'whstats --config' or set them as flags or environment variables.\n");
+    process.exit(1);
   }
 
   console.error("\n  No configuration found.\n");
-  console.error("  Run 'whstats --setup' to configure your credentials.\n");
+  console.error("  Run 'whstats --setup' to configure your credentials,");
+  console.error("  or pass them as WHSTATS_* environment variables (see 'whstats --help').\n");
   process.exit(1);
 }
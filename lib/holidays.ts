@@ -0,0 +1,170 @@
+import type { CustomHoliday } from "./config.js";
+import { formatDate, parseDate } from "./utils.js";
+
+export const GERMAN_STATES: Record<string, string> = {
+  BW: "Baden-Württemberg",
+  BY: "Bayern",
+  BE: "Berlin",
+  BB: "Brandenburg",
+  HB: "Bremen",
+  HH: "Hamburg",
+  HE: "Hessen",
+  MV: "Mecklenburg-Vorpommern",
+  NI: "Niedersachsen",
+  NW: "Nordrhein-Westfalen",
+  RP: "Rheinland-Pfalz",
+  SL: "Saarland",
+  SN: "Sachsen",
+  ST: "Sachsen-Anhalt",
+  SH: "Schleswig-Holstein",
+  TH: "Thüringen",
+};
+
+interface HolidayRule {
+  name: string;
+  // Fixed date as [month, day], or offset in days from Easter Sunday
+  date: [number, number] | { easterOffset: number };
+  // States observing the holiday; omitted for nationwide holidays
+  states?: string[];
+  sinceYear?: number;
+  untilYear?: number;
+}
+
+const HOLIDAY_RULES: readonly HolidayRule[] = [
+  { name: "Neujahr", date: [1, 1] },
+  { name: "Heilige Drei Könige", date: [1, 6], states: ["BW", "BY", "ST"] },
+  { name: "Internationaler Frauentag", date: [3, 8], states: ["BE"], sinceYear: 2019 },
+  { name: "Internationaler Frauentag", date: [3, 8], states: ["MV"], sinceYear: 2023 },
+  { name: "Karfreitag", date: { easterOffset: -2 } },
+  { name: "Ostersonntag", date: { easterOffset: 0 }, states: ["BB"] },
+  { name: "Ostermontag", date: { easterOffset: 1 } },
+  { name: "Tag der Arbeit", date: [5, 1] },
+  { name: "Christi Himmelfahrt", date: { easterOffset: 39 } },
+  { name: "Pfingstsonntag", date: { easterOffset: 49 }, states: ["BB"] },
+  { name: "Pfingstmontag", date: { easterOffset: 50 } },
+  {
+    name: "Fronleichnam",
+    date: { easterOffset: 60 },
+    states: ["BW", "BY", "HE", "NW", "RP", "SL"],
+  },
+  { name: "Mariä Himmelfahrt", date: [8, 15], states: ["SL"] },
+  { name: "Weltkindertag", date: [9, 20], states: ["TH"], sinceYear: 2019 },
+  { name: "Tag der Deutschen Einheit", date: [10, 3] },
+  { name: "Reformationstag", date: [10, 31], states: ["BB", "MV", "SN", "ST", "TH"] },
+  {
+    name: "Reformationstag",
+    date: [10, 31],
+    states: ["HB", "HH", "NI", "SH"],
+    sinceYear: 2018,
+  },
+  {
+    name: "Reformationstag",
+    date: [10, 31],
+    states: ["BW", "BY", "BE", "HE", "NW", "RP", "SL"],
+    sinceYear: 2017,
+    untilYear: 2017,
+  },
+  { name: "Allerheiligen", date: [11, 1], states: ["BW", "BY", "NW", "RP", "SL"] },
+  { name: "1. Weihnachtstag", date: [12, 25] },
+  { name: "2. Weihnachtstag", date: [12, 26] },
+];
+
+export function isValidState(state: string): boolean {
+  return Object.hasOwn(GERMAN_STATES, state.toUpperCase());
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+// Buß- und Bettag: the Wednesday before November 23rd (Saxony only)
+function getRepentanceDay(year: number): Date {
+  const date = new Date(year, 10, 22);
+  while (date.getDay() !== 3) {
+    date.setDate(date.getDate() - 1);
+  }
+  return date;
+}
+
+/**
+ * Public holidays for a year as a map of `YYYY-MM-DD` to holiday name. Without a state,
+ * only nationwide holidays are included.
+ */
+export function getPublicHolidays(year: number, state?: string): Map<string, string> {
+  const holidays = new Map<string, string>();
+  const stateCode = state?.toUpperCase();
+  const easter = getEasterSunday(year);
+
+  for (const rule of HOLIDAY_RULES) {
+    if (rule.sinceYear !== undefined && year < rule.sinceYear) continue;
+    if (rule.untilYear !== undefined && year > rule.untilYear) continue;
+    if (rule.states && (!stateCode || !rule.states.includes(stateCode))) continue;
+
+    const date = Array.isArray(rule.date)
+      ? new Date(year, rule.date[0] - 1, rule.date[1])
+      : new Date(
+          easter.getFullYear(),
+          easter.getMonth(),
+          easter.getDate() + rule.date.easterOffset,
+        );
+    holidays.set(formatDate(date), rule.name);
+  }
+
+  if (stateCode === "SN") {
+    holidays.set(formatDate(getRepentanceDay(year)), "Buß- und Bettag");
+  }
+
+  return holidays;
+}
+
+/**
+ * Build a holiday lookup for a date range from the configured state and custom holidays.
+ * Custom holidays use either `YYYY-MM-DD` (one-off) or `MM-DD` (every year).
+ */
+export function getHolidaysInRange(
+  from: string,
+  to: string,
+  state?: string,
+  customHolidays: readonly CustomHoliday[] = [],
+): Map<string, string> {
+  const result = new Map<string, string>();
+  const fromDate = parseDate(from);
+  const toDate = parseDate(to);
+  if (!fromDate || !toDate) return result;
+
+  for (let year = fromDate.getFullYear(); year <= toDate.getFullYear(); year++) {
+    const yearHolidays = getPublicHolidays(year, state);
+
+    for (const custom of customHolidays) {
+      const name = custom.name || "Holiday";
+      if (/^\d{2}-\d{2}$/.test(custom.date)) {
+        yearHolidays.set(`${year}-${custom.date}`, name);
+      } else if (custom.date.startsWith(`${year}-`)) {
+        yearHolidays.set(custom.date, name);
+      }
+    }
+
+    for (const [date, name] of yearHolidays) {
+      if (date >= from && date <= to) {
+        result.set(date, name);
+      }
+    }
+  }
+
+  return result;
+}
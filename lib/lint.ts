@@ -0,0 +1,154 @@
+import type { Config } from "./config.js";
+import type { Issue, TimeEntry } from "./redmine.js";
+import type { WorkCalendar } from "./schedule.js";
+import { formatHours, isIgnoredEntry, parseDate } from "./utils.js";
+import type { DayStats } from "./output/types.js";
+
+export const LINT_RULES = [
+  "empty-comment",
+  "missing-issue",
+  "increment",
+  "duplicate",
+  "weekend",
+  "holiday",
+  "closed-issue",
+] as const;
+
+export type LintRuleName = (typeof LINT_RULES)[number];
+
+export interface LintSettings {
+  rules: LintRuleName[];
+  // Hours must be a multiple of this
+  increment: number;
+}
+
+export interface LintFinding {
+  rule: LintRuleName;
+  date: string;
+  entryId: number;
+  issueId?: number;
+  hours: number;
+  message: string;
+}
+
+export interface LintResult {
+  checkedEntries: number;
+  findings: LintFinding[];
+}
+
+const DEFAULT_INCREMENT = 0.25;
+
+export function resolveLintSettings(config: Config): LintSettings {
+  const disabled = new Set(config.lint?.disabledRules ?? []);
+  return {
+    rules: LINT_RULES.filter((rule) => !disabled.has(rule)),
+    increment: config.lint?.increment ?? DEFAULT_INCREMENT,
+  };
+}
+
+function isMultipleOf(value: number, step: number): boolean {
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+function getDuplicateKey(entry: TimeEntry): string {
+  return JSON.stringify([
+    entry.project.id,
+    entry.issue?.id,
+    entry.activity.id,
+    entry.hours,
+    (entry.comments ?? "").trim(),
+  ]);
+}
+
+function lintDay(
+  day: DayStats,
+  settings: LintSettings,
+  calendar: WorkCalendar,
+  issues: ReadonlyMap<number, Issue>,
+  ignoredTicketIds: ReadonlySet<number>,
+): { checked: number; findings: LintFinding[] } {
+  const enabled = new Set(settings.rules);
+  const findings: LintFinding[] = [];
+  const seen = new Map<string, number>();
+  const date = parseDate(day.date);
+  const holiday = calendar.holidays.get(day.date);
+  // Weekends only count if the work schedule doesn't expect work on them; holidays have their own rule
+  const isWeekend =
+    (date?.getDay() === 0 || date?.getDay() === 6) &&
+    holiday === undefined &&
+    !calendar.isExpectedWorkday(day.date);
+  const entries = day.entries.filter((entry) => !isIgnoredEntry(entry, ignoredTicketIds));
+
+  for (const entry of entries) {
+    const add = (rule: LintRuleName, message: string) => {
+      if (!enabled.has(rule)) return;
+      findings.push({
+        rule,
+        date: day.date,
+        entryId: entry.id,
+        issueId: entry.issue?.id,
+        hours: entry.hours,
+        message,
+      });
+    };
+
+    if (!entry.comments?.trim()) {
+      add("empty-comment", "Empty comment");
+    }
+    if (!entry.issue) {
+      add("missing-issue", "No issue");
+    }
+    if (!isMultipleOf(entry.hours, settings.increment)) {
+      add(
+        "increment",
+        `${formatHours(entry.hours)} is not a multiple of ${formatHours(settings.increment)}`,
+      );
+    }
+
+    const key = getDuplicateKey(entry);
+    const original = seen.get(key);
+    if (original !== undefined) {
+      add("duplicate", `Duplicate of entry ${original}`);
+    } else {
+      seen.set(key, entry.id);
+    }
+
+    if (isWeekend) {
+      add("weekend", `Booked on a ${date!.toLocaleDateString("en-US", { weekday: "long" })}`);
+    }
+    if (holiday !== undefined) {
+      add("holiday", `Booked on a holiday (${holiday})`);
+    }
+
+    const status = entry.issue ? issues.get(entry.issue.id)?.status : undefined;
+    if (status?.is_closed) {
+      add("closed-issue", `Issue #${entry.issue!.id} is closed (${status.name})`);
+    }
+  }
+
+  return { checked: entries.length, findings };
+}
+
+/**
+ * Check the entries of each day against the enabled rules. Entries on ignored tickets are
+ * not checked. Closed issues can only be detected for issues with loaded details.
+ */
+export function lintEntries(
+  days: readonly DayStats[],
+  settings: LintSettings,
+  calendar: WorkCalendar,
+  issues: ReadonlyMap<number, Issue>,
+  ignoredTicketIds: ReadonlySet<number>,
+): LintResult {
+  let checkedEntries = 0;
+  const findings: LintFinding[] = [];
+
+  for (const day of days) {
+    const result = lintDay(day, settings, calendar, issues, ignoredTicketIds);
+    checkedEntries += result.checked;
+    findings.push(...result.findings);
+  }
+
+  return { checkedEntries, findings };
+}
@@ -2,8 +2,28 @@ import sql from "mssql";
 import type { Config } from "./config.js";
 import { formatDate } from "./utils.js";
 
+export interface ClockSession {
+  // ISO timestamps of clock-in and clock-out
+  start: string;
+  end: string;
+  // True if the clock is still running (end is the time of the query)
+  running: boolean;
+}
+
 export interface ClockedHoursResult {
   hoursByDate: Map<string, number>;
+  sessionsByDate: Map<string, ClockSession[]>;
+  today: string;
+  isClockRunningToday: boolean;
+}
+
+export interface ClockEvent {
+  // ISO timestamp of the event
+  time: string;
+  clockIn: boolean;
+}
+
+export interface ClockStatus {
   today: string;
   isClockRunningToday: boolean;
 }
@@ -14,9 +34,11 @@ function getDayEndUtc(dateStr: string): Date {
 
 function addHoursForInterval(
   hoursByDate: Map<string, number>,
+  sessionsByDate: Map<string, ClockSession[]>,
   day: string,
   start: Date,
   end: Date,
+  running = false,
 ): void {
   const durationMs = end.getTime() - start.getTime();
   if (durationMs <= 0) {
@@ -26,13 +48,16 @@ function addHoursForInterval(
   const durationHours = durationMs / (1000 * 60 * 60);
   const existing = hoursByDate.get(day) ?? 0;
   hoursByDate.set(day, existing + durationHours);
+
+  const sessions = sessionsByDate.get(day) ?? [];
+  sessions.push({ start: start.toISOString(), end: end.toISOString(), running });
+  sessionsByDate.set(day, sessions);
 }
 
-export async function fetchClockedHours(
+async function withPool<T>(
   config: Config,
-  from: string,
-  to: string,
-): Promise<ClockedHoursResult> {
+  fn: (pool: sql.ConnectionPool) => Promise<T>,
+): Promise<T> {
   const sqlConfig: sql.config = {
     server: config.mssqlServer,
     database: config.mssqlDatabase,
@@ -45,99 +70,167 @@ export async function fetchClockedHours(
     },
   };
 
-  const pool = await sql.connect(sqlConfig);
-
+  // A pool of its own rather than the global one, so parallel loads don't close each other's
+  const pool = await new sql.ConnectionPool(sqlConfig).connect();
   try {
-    // Query raw events and aggregate in TypeScript using explicit state transitions.
-    // This avoids overcounting when redundant start/stop events are emitted.
-    const result = await pool
-      .request()
-      .input("userId", sql.Int, parseInt(config.slackUserId))
-      .input("fromDate", sql.Date, from)
-      .input("toDate", sql.Date, to).query(`
-        SELECT
-          [date] AS event_time,
-          [clock]
-        FROM event_logs
-        WHERE user_id = @userId
-          AND CAST([date] AS DATE) >= @fromDate
-          AND CAST([date] AS DATE) <= @toDate
-        ORDER BY [date] ASC
-      `);
-
-    const clockedHours = new Map<string, number>();
-    const now = new Date();
-    const today = formatDate(now);
-
-    let activeStart: Date | null = null;
-    let activeDay: string | null = null;
-
-    const rows = result.recordset as Array<{ event_time: Date; clock: number }>;
-    for (const row of rows) {
-      const eventTime = new Date(row.event_time);
-      const eventDay = formatDate(eventTime);
-      const isClockIn = Number(row.clock) === 1;
-
-      if (activeStart && activeDay && activeDay !== eventDay) {
-        addHoursForInterval(clockedHours, activeDay, activeStart, getDayEndUtc(activeDay));
-        activeStart = null;
-        activeDay = null;
-      }
+    return await fn(pool);
+  } finally {
+    await pool.close();
+  }
+}
 
-      if (isClockIn) {
-        if (!activeStart) {
-          activeStart = eventTime;
-          activeDay = eventDay;
-        }
-        continue;
-      }
+async function queryClockEvents(
+  pool: sql.ConnectionPool,
+  userId: string,
+  from: string,
+  to: string,
+): Promise<ClockEvent[]> {
+  const result = await pool
+    .request()
+    .input("userId", sql.Int, parseInt(userId))
+    .input("fromDate", sql.Date, from)
+    .input("toDate", sql.Date, to).query(`
+      SELECT
+        [date] AS event_time,
+        [clock]
+      FROM event_logs
+      WHERE user_id = @userId
+        AND CAST([date] AS DATE) >= @fromDate
+        AND CAST([date] AS DATE) <= @toDate
+      ORDER BY [date] ASC
+    `);
+
+  const rows = result.recordset as Array<{ event_time: Date; clock: number }>;
+  return rows.map((row) => ({
+    time: new Date(row.event_time).toISOString(),
+    clockIn: Number(row.clock) === 1,
+  }));
+}
 
-      if (activeStart && activeDay) {
-        addHoursForInterval(clockedHours, activeDay, activeStart, eventTime);
-        activeStart = null;
-        activeDay = null;
-      }
+async function queryClockStatus(pool: sql.ConnectionPool, userId: string): Promise<ClockStatus> {
+  const statusResult = await pool.request().input("userId", sql.Int, parseInt(userId)).query(`
+    SELECT
+      CAST(GETDATE() AS DATE) AS today,
+      CAST(
+        CASE
+          WHEN EXISTS (
+            SELECT 1
+            FROM (
+              SELECT TOP 1 [clock]
+              FROM event_logs
+              WHERE user_id = @userId
+                AND CAST([date] AS DATE) = CAST(GETDATE() AS DATE)
+              ORDER BY [date] DESC
+            ) AS last_event
+            WHERE last_event.clock = 1
+          ) THEN 1
+          ELSE 0
+        END AS BIT
+      ) AS is_running
+  `);
+
+  const statusRow = statusResult.recordset[0] as
+    | { today: Date; is_running: boolean | number }
+    | undefined;
+
+  return {
+    today: statusRow ? formatDate(new Date(statusRow.today)) : formatDate(new Date()),
+    isClockRunningToday: Boolean(statusRow?.is_running),
+  };
+}
+
+/**
+ * Fetch raw clock events for one or more date ranges plus the current clock status,
+ * using a single connection.
+ */
+export async function fetchClockEventsForRanges(
+  config: Config,
+  ranges: ReadonlyArray<{ from: string; to: string }>,
+): Promise<{ events: ClockEvent[]; status: ClockStatus }> {
+  return withPool(config, async (pool) => {
+    const events: ClockEvent[] = [];
+    for (const range of ranges) {
+      events.push(...(await queryClockEvents(pool, config.slackUserId, range.from, range.to)));
     }
+    const status = await queryClockStatus(pool, config.slackUserId);
+    return { events, status };
+  });
+}
 
-    const isClockRunningToday = activeStart !== null && activeDay === today;
+/**
+ * Aggregate raw clock events (sorted by time) into hours per day using explicit state
+ * transitions. This avoids overcounting when redundant start/stop events are emitted.
+ */
+export function aggregateClockEvents(
+  events: readonly ClockEvent[],
+  status: ClockStatus,
+  now: Date = new Date(),
+): ClockedHoursResult {
+  const clockedHours = new Map<string, number>();
+  const sessionsByDate = new Map<string, ClockSession[]>();
+  const today = formatDate(now);
+
+  let activeStart: Date | null = null;
+  let activeDay: string | null = null;
+
+  for (const event of events) {
+    const eventTime = new Date(event.time);
+    const eventDay = formatDate(eventTime);
+
+    if (activeStart && activeDay && activeDay !== eventDay) {
+      addHoursForInterval(
+        clockedHours,
+        sessionsByDate,
+        activeDay,
+        activeStart,
+        getDayEndUtc(activeDay),
+      );
+      activeStart = null;
+      activeDay = null;
+    }
+
+    if (event.clockIn) {
+      if (!activeStart) {
+        activeStart = eventTime;
+        activeDay = eventDay;
+      }
+      continue;
+    }
 
     if (activeStart && activeDay) {
-      const closingTime = isClockRunningToday ? now : getDayEndUtc(activeDay);
-      addHoursForInterval(clockedHours, activeDay, activeStart, closingTime);
+      addHoursForInterval(clockedHours, sessionsByDate, activeDay, activeStart, eventTime);
+      activeStart = null;
+      activeDay = null;
     }
+  }
 
-    const statusResult = await pool.request().input("userId", sql.Int, parseInt(config.slackUserId))
-      .query(`
-        SELECT
-          CAST(GETDATE() AS DATE) AS today,
-          CAST(
-            CASE
-              WHEN EXISTS (
-                SELECT 1
-                FROM (
-                  SELECT TOP 1 [clock]
-                  FROM event_logs
-                  WHERE user_id = @userId
-                    AND CAST([date] AS DATE) = CAST(GETDATE() AS DATE)
-                  ORDER BY [date] DESC
-                ) AS last_event
-                WHERE last_event.clock = 1
-              ) THEN 1
-              ELSE 0
-            END AS BIT
-          ) AS is_running
-      `);
-
-    const statusRow = statusResult.recordset[0] as
-      | { today: Date; is_running: boolean | number }
-      | undefined;
-
-    return {
-      hoursByDate: clockedHours,
-      today: statusRow ? formatDate(new Date(statusRow.today)) : formatDate(new Date()),
-      isClockRunningToday: isClockRunningToday || Boolean(statusRow?.is_running),
-    };
-  } finally {
-    await pool.close();
+  const isClockRunningToday = activeStart !== null && activeDay === today;
+
+  if (activeStart && activeDay) {
+    const closingTime = isClockRunningToday ? now : getDayEndUtc(activeDay);
+    addHoursForInterval(
+      clockedHours,
+      sessionsByDate,
+      activeDay,
+      activeStart,
+      closingTime,
+      isClockRunningToday,
+    );
   }
+
+  return {
+    hoursByDate: clockedHours,
+    sessionsByDate,
+    today: status.today,
+    isClockRunningToday: isClockRunningToday || status.isClockRunningToday,
+  };
+}
+
+export async function fetchClockedHours(
+  config: Config,
+  from: string,
+  to: string,
+): Promise<ClockedHoursResult> {
+  const { events, status } = await fetchClockEventsForRanges(config, [{ from, to }]);
+  return aggregateClockEvents(events, status);
 }
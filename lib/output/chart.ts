@@ -0,0 +1,206 @@
+import { colors as c } from "../colors.js";
+import { addDays, formatDate, formatHours, parseDate } from "../utils.js";
+import type { DayStats, SummaryData } from "./types.js";
+
+// Ranges longer than this are shown as a heatmap instead of one bar per day
+export const MAX_BAR_CHART_DAYS = 31;
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Glyphs stay distinguishable without colors (NO_COLOR)
+const BAR_GLYPHS = {
+  both: "█",
+  booked: "▓",
+  clocked: "░",
+  target: "│",
+};
+
+const LABEL_WIDTH = 10;
+const VALUE_WIDTH = 16;
+const MIN_BAR_WIDTH = 10;
+const MAX_BAR_WIDTH = 60;
+
+type BarCell = keyof typeof BAR_GLYPHS | "empty";
+
+function getBarCell(booked: boolean, clocked: boolean): BarCell {
+  if (booked && clocked) return "both";
+  if (booked) return "booked";
+  if (clocked) return "clocked";
+  return "empty";
+}
+
+function colorizeBarCell(cell: BarCell, text: string): string {
+  switch (cell) {
+    case "both":
+      return c.info(text);
+    case "booked":
+      return c.warning(text);
+    case "clocked":
+      return c.dim(text);
+    case "target":
+      return c.highlight(text);
+    case "empty":
+      return text;
+  }
+}
+
+function renderBar(day: DayStats, hoursPerCell: number, width: number): string {
+  const cells: BarCell[] = [];
+  for (let i = 0; i < width; i++) {
+    const middle = (i + 0.5) * hoursPerCell;
+    cells.push(getBarCell(day.netBooked >= middle, day.clocked >= middle));
+  }
+  if (day.target > 0) {
+    const index = Math.min(Math.max(Math.round(day.target / hoursPerCell) - 1, 0), width - 1);
+    cells[index] = "target";
+  }
+
+  // Color runs of equal cells instead of every single character
+  let bar = "";
+  let start = 0;
+  for (let i = 1; i <= cells.length; i++) {
+    if (i === cells.length || cells[i] !== cells[start]) {
+      const cell = cells[start]!;
+      const glyph = cell === "empty" ? " " : BAR_GLYPHS[cell];
+      bar += colorizeBarCell(cell, glyph.repeat(i - start));
+      start = i;
+    }
+  }
+  return bar;
+}
+
+function describeDay(day: DayStats): string {
+  if (day.missing) return c.danger("missing");
+  if (day.unknown && day.netBooked === 0 && day.clocked === 0) return c.warning("not cached");
+  if (day.holiday) return c.dim("holiday");
+  const values = `${formatHours(day.netBooked)} / ${formatHours(day.clocked)}`;
+  return day.excludedFromNet ? c.dim(values) : c.highlight(values);
+}
+
+/**
+ * One horizontal bar per day: booked and clocked hours overlaid, with a marker at the
+ * day's target. The bars are scaled to fit the terminal width.
+ */
+export function renderDayBars(days: readonly DayStats[], terminalWidth: number): string[] {
+  const width = Math.min(
+    Math.max(terminalWidth - 4 - LABEL_WIDTH - VALUE_WIDTH, MIN_BAR_WIDTH),
+    MAX_BAR_WIDTH,
+  );
+  const maxHours = Math.max(
+    1,
+    ...days.map((day) => Math.max(day.netBooked, day.clocked, day.target)),
+  );
+  const hoursPerCell = maxHours / width;
+
+  const lines = days.map((day) => {
+    const label = `${day.dayName} ${day.date.slice(5)}`.padEnd(LABEL_WIDTH);
+    return c.line(`  ${c.dim(label)}${renderBar(day, hoursPerCell, width)}  ${describeDay(day)}`);
+  });
+
+  lines.push(
+    "",
+    c.line(
+      `  ${c.dim("booked / clocked:")} ${c.info(BAR_GLYPHS.both)} both  ${c.warning(BAR_GLYPHS.booked)} booked only  ${c.dim(BAR_GLYPHS.clocked)} clocked only  ${c.highlight(BAR_GLYPHS.target)} target`,
+    ),
+  );
+  return lines;
+}
+
+const HEAT_LEVELS = ["░", "▒", "▓", "█"];
+
+// Shade by share of the target: below 50%, below 90%, about 100%, above 110%
+function getHeatLevel(ratio: number): number {
+  if (ratio < 0.5) return 0;
+  if (ratio < 0.9) return 1;
+  if (ratio < 1.1) return 2;
+  return 3;
+}
+
+function renderHeatCell(day: DayStats | undefined, targetHoursPerDay: number): string {
+  if (!day) return " ";
+  if (day.netBooked === 0) {
+    return day.missing ? c.danger("×") : c.dim("·");
+  }
+  const ratio = day.netBooked / (day.target > 0 ? day.target : targetHoursPerDay);
+  return c.success(HEAT_LEVELS[getHeatLevel(ratio)]!);
+}
+
+/**
+ * GitHub-style calendar heatmap of booked hours: one column per week (Monday to Sunday),
+ * shaded by booked hours relative to the day's target. Cells are narrowed to a single
+ * character if two do not fit the terminal width.
+ */
+export function renderHeatmap(
+  days: readonly DayStats[],
+  summary: SummaryData,
+  terminalWidth: number,
+): string[] {
+  const first = days[0];
+  const last = days[days.length - 1];
+  if (!first || !last) return [];
+
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const start = parseDate(first.date)!;
+  const firstMonday = addDays(start, -((start.getDay() + 6) % 7));
+  const end = parseDate(last.date)!;
+  const weeks: Date[] = [];
+  for (let monday = firstMonday; monday <= end; monday = addDays(monday, 7)) {
+    weeks.push(monday);
+  }
+
+  const labelWidth = 6;
+  const cellWidth = labelWidth + weeks.length * 2 <= terminalWidth - 2 ? 2 : 1;
+
+  // Month names above the week in which each month starts
+  const labels: Array<{ column: number; name: string }> = [];
+  for (const [index, monday] of weeks.entries()) {
+    const sunday = addDays(monday, 6);
+    if (index === 0 || sunday.getMonth() !== addDays(monday, -1).getMonth()) {
+      labels.push({ column: index * cellWidth, name: MONTH_NAMES[sunday.getMonth()]! });
+    }
+  }
+  // Leave out the partial first month if its name would hide the next one
+  if (labels.length > 1 && labels[1]!.column - labels[0]!.column < 4) {
+    labels.shift();
+  }
+  let monthRow = "";
+  for (const label of labels) {
+    if (label.column > monthRow.length || monthRow.length === 0) {
+      monthRow = monthRow.padEnd(label.column) + label.name;
+    }
+  }
+
+  const lines = [c.line(`  ${" ".repeat(labelWidth)}${c.dim(monthRow)}`)];
+  for (const [weekday, label] of WEEKDAY_LABELS.entries()) {
+    const cells = weeks.map((monday) => {
+      const cell = renderHeatCell(
+        byDate.get(formatDate(addDays(monday, weekday))),
+        summary.targetHoursPerDay,
+      );
+      return cellWidth === 2 ? `${cell} ` : cell;
+    });
+    lines.push(c.line(`  ${c.dim(label.padEnd(labelWidth))}${cells.join("")}`));
+  }
+
+  lines.push(
+    "",
+    c.line(
+      `  ${c.dim("booked of target:")} ${c.dim("·")} none  ${HEAT_LEVELS.map((glyph) => c.success(glyph)).join(" ")} ${c.dim("<50% ... >110%")}  ${c.danger("×")} missing`,
+    ),
+  );
+  return lines;
+}
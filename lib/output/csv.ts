@@ -0,0 +1,160 @@
+import type { Report } from "../report.js";
+import type { TeamMemberStats } from "../team.js";
+import type { StatsData } from "./types.js";
+
+export interface CsvOptions {
+  delimiter: string;
+  // "." or ","; numbers are written without thousands separators
+  decimalSeparator: string;
+}
+
+type CsvValue = string | number | boolean;
+
+// Quote a field if it contains the delimiter, quotes or line breaks (RFC 4180)
+function escapeField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Spreadsheets evaluate text starting with these characters as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Excel only detects UTF-8 (e.g. umlauts in comments) with a byte order mark
+const BOM = "\uFEFF";
+
+function formatValue(value: CsvValue, options: CsvOptions): string {
+  if (typeof value === "number") {
+    const rounded = Math.round(value * 100) / 100;
+    return String(rounded).replace(".", options.decimalSeparator);
+  }
+  const text = String(value);
+  // A leading apostrophe makes spreadsheets show the text as is (CSV injection)
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+function toDocument(lines: readonly string[]): string {
+  return BOM + lines.join("\n");
+}
+
+function toRow(values: readonly CsvValue[], options: CsvOptions): string {
+  return values
+    .map((value) => escapeField(formatValue(value, options), options.delimiter))
+    .join(options.delimiter);
+}
+
+/**
+ * Stats as CSV with a header line: one row per time entry, or one row per day in brief
+ * mode. Hours are rounded to two decimals.
+ */
+export function render(statsData: StatsData, options: CsvOptions, brief = false): string {
+  if (brief) {
+    const lines = [
+      toRow(
+        ["date", "weekday", "gross_booked", "net_booked", "clocked", "excluded_from_net"],
+        options,
+      ),
+    ];
+    for (const day of statsData.days) {
+      lines.push(
+        toRow(
+          [day.date, day.dayName, day.grossBooked, day.netBooked, day.clocked, day.excludedFromNet],
+          options,
+        ),
+      );
+    }
+    return toDocument(lines);
+  }
+
+  const lines = [toRow(["date", "project", "issue", "activity", "hours", "comment"], options)];
+  for (const day of statsData.days) {
+    for (const entry of day.entries) {
+      lines.push(
+        toRow(
+          [
+            entry.spent_on,
+            entry.project.name,
+            entry.issue?.id ?? "",
+            entry.activity.name,
+            entry.hours,
+            entry.comments ?? "",
+          ],
+          options,
+        ),
+      );
+    }
+  }
+  return toDocument(lines);
+}
+
+/**
+ * Report rows as CSV with a header line. Issues are written as plain IDs, project and
+ * activity as names.
+ */
+export function renderReport(report: Report, options: CsvOptions): string {
+  const lines = [toRow([...report.dimensions, "hours", "share", "days"], options)];
+
+  for (const row of report.rows) {
+    const groups = row.groups.map((group) =>
+      group.dimension === "issue" ? (group.id ?? "") : group.name,
+    );
+    lines.push(toRow([...groups, row.hours, row.share, row.days], options));
+  }
+
+  return toDocument(lines);
+}
+
+/**
+ * Team matrix as CSV: one row per member with the range totals. Members whose data could
+ * not be loaded have empty totals and the error message.
+ */
+export function renderTeam(results: readonly TeamMemberStats[], options: CsvOptions): string {
+  const lines = [
+    toRow(
+      [
+        "name",
+        "redmine_user_id",
+        "timelogger_user_id",
+        "target",
+        "booked",
+        "clocked",
+        "booked_pct",
+        "clocked_pct",
+        "efficiency",
+        "workdays",
+        "missing_days",
+        "error",
+      ],
+      options,
+    ),
+  ];
+
+  for (const { member, statsData, error } of results) {
+    const ids = [member.name, member.redmineUserId, member.timeloggerUserId];
+    if (!statsData) {
+      lines.push(toRow([...ids, "", "", "", "", "", "", "", "", error ?? ""], options));
+      continue;
+    }
+    const { summary } = statsData;
+    lines.push(
+      toRow(
+        [
+          ...ids,
+          summary.targetTotal,
+          summary.booked.total,
+          summary.clocked.total,
+          summary.percentages.booked,
+          summary.percentages.clocked,
+          summary.percentages.efficiency,
+          summary.workdays,
+          summary.missingDays,
+          "",
+        ],
+        options,
+      ),
+    );
+  }
+
+  return toDocument(lines);
+}
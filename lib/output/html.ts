@@ -0,0 +1,231 @@
+import type { Report } from "../report.js";
+import { formatHours, formatSignedHours, getDayNote } from "../utils.js";
+import { VERSION } from "../version.js";
+import type { DayStats, StatsData, SummaryData } from "./types.js";
+
+const COLORS = {
+  booked: "#2f6fb3",
+  clocked: "#9bbf4d",
+  target: "#c0392b",
+  grid: "#d9d9d9",
+  text: "#333333",
+};
+
+// Slice colors for the project breakdown, repeated if there are more projects
+const PIE_COLORS = ["#2f6fb3", "#9bbf4d", "#e6a23c", "#8e5ea2", "#3cba9f", "#c45850", "#7f8c8d"];
+
+const STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: ${COLORS.text}; margin: 2rem; font-size: 13px; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid ${COLORS.grid}; padding-bottom: 0.2rem; }
+  .meta { color: #777; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 0.25rem 0.5rem; border-bottom: 1px solid #eee; text-align: left; }
+  th { background: #f5f5f5; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  tr.muted td { color: #999; }
+  tr.missing td { color: ${COLORS.target}; }
+  .charts { display: flex; gap: 2rem; align-items: flex-start; flex-wrap: wrap; }
+  .charts table { width: auto; min-width: 16rem; }
+  .legend span { display: inline-block; margin-right: 1rem; }
+  .swatch { display: inline-block; width: 0.8em; height: 0.8em; margin-right: 0.3em; vertical-align: middle; }
+  .signature { margin-top: 4rem; display: flex; gap: 4rem; }
+  .signature div { border-top: 1px solid ${COLORS.text}; padding-top: 0.3rem; width: 14rem; }
+  @page { size: A4; margin: 15mm; }
+  @media print { body { margin: 0; } section { break-inside: avoid; } }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function swatch(color: string): string {
+  return `<span class="swatch" style="background:${color}"></span>`;
+}
+
+function renderDayTable(days: readonly DayStats[]): string {
+  const hasBalance = days.some((day) => day.balance !== undefined);
+  const rows = days.map((day) => {
+    const rowClass = day.missing ? "missing" : day.excludedFromNet || day.holiday ? "muted" : "";
+    const balance = hasBalance
+      ? `<td class="num">${day.balance ? formatSignedHours(day.balance.booked) : ""}</td>`
+      : "";
+    return `<tr class="${rowClass}"><td>${day.date}</td><td>${day.dayName}</td><td class="num">${formatHours(day.netBooked)}</td><td class="num">${day.clocked > 0 ? formatHours(day.clocked) : "-"}</td><td class="num">${formatHours(day.target)}</td>${balance}<td>${escapeHtml(getDayNote(day))}</td></tr>`;
+  });
+
+  return `<table>
+<thead><tr><th>Date</th><th>Day</th><th class="num">Booked</th><th class="num">Clocked</th><th class="num">Target</th>${hasBalance ? '<th class="num">Balance</th>' : ""}<th>Note</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>`;
+}
+
+/**
+ * Booked and clocked hours per day as paired bars, with a tick for the day's target.
+ */
+function renderBarChart(days: readonly DayStats[]): string {
+  const chartHeight = 180;
+  const labelHeight = 28;
+  const groupWidth = 24;
+  const barWidth = 9;
+  const left = 30;
+  const width = left + Math.max(days.length, 1) * groupWidth + 10;
+  const maxHours = Math.max(
+    1,
+    ...days.map((day) => Math.max(day.netBooked, day.clocked, day.target)),
+  );
+  const scale = Math.ceil(maxHours / 2) * 2;
+  const y = (hours: number) => chartHeight - (hours / scale) * chartHeight;
+  const parts: string[] = [];
+
+  for (let hours = 0; hours <= scale; hours += 2) {
+    parts.push(
+      `<line x1="${left}" x2="${width}" y1="${y(hours)}" y2="${y(hours)}" stroke="${COLORS.grid}" stroke-width="0.5"/>`,
+      `<text x="${left - 4}" y="${y(hours) + 3}" font-size="8" text-anchor="end">${hours}</text>`,
+    );
+  }
+
+  for (const [index, day] of days.entries()) {
+    const x = left + index * groupWidth + 3;
+    parts.push(
+      `<rect x="${x}" y="${y(day.netBooked)}" width="${barWidth}" height="${chartHeight - y(day.netBooked)}" fill="${COLORS.booked}"><title>${day.date}: ${formatHours(day.netBooked)} booked</title></rect>`,
+      `<rect x="${x + barWidth}" y="${y(day.clocked)}" width="${barWidth}" height="${chartHeight - y(day.clocked)}" fill="${COLORS.clocked}"><title>${day.date}: ${formatHours(day.clocked)} clocked</title></rect>`,
+    );
+    if (day.target > 0) {
+      parts.push(
+        `<line x1="${x - 1}" x2="${x + 2 * barWidth + 1}" y1="${y(day.target)}" y2="${y(day.target)}" stroke="${COLORS.target}" stroke-width="1.5"/>`,
+      );
+    }
+    parts.push(
+      `<text x="${x + barWidth}" y="${chartHeight + 11}" font-size="8" text-anchor="middle">${day.date.slice(8)}</text>`,
+      `<text x="${x + barWidth}" y="${chartHeight + 21}" font-size="7" text-anchor="middle" fill="#999">${day.dayName.slice(0, 2)}</text>`,
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${chartHeight + labelHeight}" style="width: 100%; max-width: ${width * 1.5}px" role="img" aria-label="Booked vs clocked hours per day">
+${parts.join("\n")}
+</svg>
+<div class="legend"><span>${swatch(COLORS.booked)}Booked</span><span>${swatch(COLORS.clocked)}Clocked</span><span>${swatch(COLORS.target)}Target</span></div>`;
+}
+
+function renderPieChart(report: Report): string {
+  if (report.rows.length === 0) {
+    return "<p>No bookings.</p>";
+  }
+
+  const radius = 80;
+  const center = radius + 2;
+  const slices: string[] = [];
+  const legend: string[] = [];
+  let angle = -Math.PI / 2;
+
+  for (const [index, row] of report.rows.entries()) {
+    const color = PIE_COLORS[index % PIE_COLORS.length]!;
+    const name = escapeHtml(row.groups.map((group) => group.name).join(" / "));
+    const fraction = report.totalHours > 0 ? row.hours / report.totalHours : 0;
+    const title = `<title>${name}: ${formatHours(row.hours)} (${row.share}%)</title>`;
+
+    if (fraction >= 0.9999) {
+      slices.push(
+        `<circle cx="${center}" cy="${center}" r="${radius}" fill="${color}">${title}</circle>`,
+      );
+    } else {
+      const end = angle + fraction * 2 * Math.PI;
+      const largeArc = fraction > 0.5 ? 1 : 0;
+      const point = (a: number) =>
+        `${(center + radius * Math.cos(a)).toFixed(2)} ${(center + radius * Math.sin(a)).toFixed(2)}`;
+      slices.push(
+        `<path d="M ${center} ${center} L ${point(angle)} A ${radius} ${radius} 0 ${largeArc} 1 ${point(end)} Z" fill="${color}" stroke="#fff" stroke-width="1">${title}</path>`,
+      );
+      angle = end;
+    }
+    legend.push(
+      `<tr><td>${swatch(color)}${name}</td><td class="num">${formatHours(row.hours)}</td><td class="num">${row.share}%</td></tr>`,
+    );
+  }
+
+  const size = 2 * center;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size}" role="img" aria-label="Booked hours by project">
+${slices.join("\n")}
+</svg>
+<table>
+<thead><tr><th>Project</th><th class="num">Hours</th><th class="num">Share</th></tr></thead>
+<tbody>
+${legend.join("\n")}
+</tbody>
+</table>`;
+}
+
+function renderSummaryTable(data: SummaryData): string {
+  const row = (label: string, total: number, pct: number, diff: number) =>
+    `<tr><td>${label}</td><td class="num">${formatHours(total)}</td><td class="num">${pct}%</td><td class="num">${formatSignedHours(diff)}</td></tr>`;
+
+  return `<table>
+<thead><tr><th></th><th class="num">Hours</th><th class="num">of target</th><th class="num">Difference</th></tr></thead>
+<tbody>
+<tr><td>Target</td><td class="num">${formatHours(data.targetTotal)}</td><td></td><td></td></tr>
+${row("Booked", data.booked.total, data.percentages.booked, data.discrepancies.booked)}
+${row("Clocked", data.clocked.total, data.percentages.clocked, data.discrepancies.clocked)}
+<tr><td>Efficiency</td><td></td><td class="num">${data.percentages.efficiency}%</td><td>booked/clocked ratio</td></tr>
+</tbody>
+</table>
+<p>${data.workdays} workday${data.workdays !== 1 ? "s" : ""}, ${data.holidays} holiday${data.holidays !== 1 ? "s" : ""}, ${data.missingDays} missing.</p>`;
+}
+
+/**
+ * Self-contained HTML timesheet (inline CSS and SVG, no external assets) with the day
+ * table, a booked vs. clocked chart, the project breakdown and the summary. Laid out
+ * for printing to PDF.
+ */
+export function render(
+  statsData: StatsData,
+  projects: Report,
+  fromDate: string,
+  toDate: string,
+  userName: string,
+): string {
+  const title = `Timesheet ${fromDate} to ${toDate}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${title} – ${userName}`)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(userName)} · generated ${new Date().toLocaleString("en-GB")} by whstats v${VERSION}</p>
+
+<section>
+<h2>Summary</h2>
+${renderSummaryTable(statsData.summary)}
+</section>
+
+<section>
+<h2>Booked vs. clocked</h2>
+${renderBarChart(statsData.days)}
+</section>
+
+<section>
+<h2>Projects</h2>
+<div class="charts">
+${renderPieChart(projects)}
+</div>
+</section>
+
+<section>
+<h2>Days</h2>
+${renderDayTable(statsData.days)}
+</section>
+
+<div class="signature"><div>Date, employee</div><div>Date, supervisor</div></div>
+</body>
+</html>
+`;
+}
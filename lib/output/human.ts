@@ -1,6 +1,27 @@
 import { colors as c, stripAnsi } from "../colors.js";
-import type { TimeEntry } from "../redmine.js";
-import { formatHours, truncateComment, truncateProject } from "../utils.js";
+import type { Anomaly } from "../anomalies.js";
+import type { Balance } from "../balance.js";
+import type { SourceStatus } from "../cache.js";
+import type { BalanceConfig } from "../config.js";
+import type { Comparison } from "../compare.js";
+import type { ComplianceReport, ComplianceRules, ComplianceViolation } from "../compliance.js";
+import type { LintFinding, LintResult } from "../lint.js";
+import type { PeriodStats, PeriodUnit } from "../periods.js";
+import type { ClockSession } from "../mssql.js";
+import type { Report, ReportGroup } from "../report.js";
+import type { TeamMemberStats } from "../team.js";
+import type { Issue, TimeEntry } from "../redmine.js";
+import { getSessionHours, summarizeSessions } from "../sessions.js";
+import {
+  formatDate,
+  formatDateTime,
+  formatHours,
+  formatSignedHours,
+  formatTime,
+  getDayName,
+  truncateComment,
+  truncateProject,
+} from "../utils.js";
 import type { DayStats, SummaryData } from "./types.js";
 import { TableBuilder } from "./table.js";
 
@@ -15,6 +36,36 @@ function colorizePercentageValue(value: number): string {
   return c.danger(text);
 }
 
+const SOURCE_LABELS: Record<SourceStatus["source"], string> = {
+  redmine: "Redmine",
+  timelogger: "Timelogger",
+};
+
+export function renderSourceNotice(sources: readonly SourceStatus[]): string[] {
+  const lines: string[] = [];
+
+  for (const source of sources) {
+    if (source.live) continue;
+    const asOf = source.asOf ? formatDateTime(new Date(source.asOf)) : "never";
+    const uncached =
+      source.uncachedDays > 0
+        ? `, ${source.uncachedDays} day${source.uncachedDays !== 1 ? "s" : ""} not cached`
+        : "";
+    lines.push(
+      c.line(
+        `${c.warning(`${SOURCE_LABELS[source.source]} data is stale`)} ${c.dim(`(cached as of ${asOf}${uncached}; ${source.reason ?? "offline"})`)}`,
+      ),
+    );
+  }
+
+  return lines;
+}
+
+function colorizeBalance(hours: number): string {
+  const text = formatSignedHours(hours);
+  return hours < 0 ? c.danger(text) : c.success(text);
+}
+
 export function renderDayHeader(stats: DayStats): string[] {
   const clockedStr = stats.clocked > 0 ? formatHours(stats.clocked) : "-";
   const bookedStr = formatHours(stats.grossBooked);
@@ -23,11 +74,36 @@ export function renderDayHeader(stats: DayStats): string[] {
   const line = stats.excludedFromNet
     ? c.dim(dayLine)
     : `${c.info(stats.date)} ${c.dim(`[${stats.dayName}]`)}: ${c.highlight(bookedStr)} booked / ${c.highlight(clockedStr)} clocked`;
+  const holidayLabel = stats.holiday ? ` ${c.success(`(holiday: ${stats.holiday})`)}` : "";
+  const balanceLabel = stats.balance
+    ? ` ${c.dim("[balance")} ${colorizeBalance(stats.balance.booked)} ${c.dim("booked /")} ${colorizeBalance(stats.balance.clocked)} ${c.dim("clocked]")}`
+    : "";
 
-  return [c.line(line)];
+  if (stats.unknown && stats.entries.length === 0 && stats.clocked === 0) {
+    return [
+      c.line(
+        `${c.info(stats.date)} ${c.dim(`[${stats.dayName}]`)}: ${c.warning("unknown")} ${c.dim("(not cached)")}`,
+      ),
+    ];
+  }
+  const unknownLabel = stats.unknown ? ` ${c.warning("(partly not cached)")}` : "";
+
+  if (stats.missing) {
+    return [
+      c.line(
+        `${c.info(stats.date)} ${c.dim(`[${stats.dayName}]`)}: ${c.danger("missing")} ${c.dim("(no bookings, nothing clocked)")}${balanceLabel}`,
+      ),
+    ];
+  }
+
+  return [c.line(`${line}${holidayLabel}${unknownLabel}${balanceLabel}`)];
 }
 
-export function renderEntries(entries: TimeEntry[], ignoredIds: ReadonlySet<number>): string[] {
+export function renderEntries(
+  entries: TimeEntry[],
+  ignoredIds: ReadonlySet<number>,
+  issues: ReadonlyMap<number, Issue> = new Map(),
+): string[] {
   const lines: string[] = [];
 
   const isIgnored = (entry: TimeEntry): boolean => {
@@ -41,14 +117,16 @@ export function renderEntries(entries: TimeEntry[], ignoredIds: ReadonlySet<numb
     const project = truncateProject(entry.project?.name || "N/A");
     const hours = formatHours(entry.hours).padStart(5, " ");
     const comment = truncateComment(entry.comments || "(no comment)");
+    const issue = entry.issue ? issues.get(entry.issue.id) : undefined;
+    const subject = issue ? `${truncateComment(issue.subject, 40)} ` : "";
 
     if (ignored) {
-      lines.push(c.line(c.dim(`    ${hours} ${project} ${issueRef} ${comment}`)));
+      lines.push(c.line(c.dim(`    ${hours} ${project} ${issueRef} ${subject}${comment}`)));
     } else {
       const renderedHours = c.highlight(hours);
       lines.push(
         c.line(
-          `    ${renderedHours} ${c.warning(project)} ${c.danger(issueRef)} ${c.dim(comment)}`,
+          `    ${renderedHours} ${c.warning(project)} ${c.danger(issueRef)} ${subject}${c.dim(comment)}`,
         ),
       );
     }
@@ -57,7 +135,549 @@ export function renderEntries(entries: TimeEntry[], ignoredIds: ReadonlySet<numb
   return lines;
 }
 
-function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: number } {
+export interface TimelineWindow {
+  startHour: number;
+  endHour: number;
+}
+
+// Each timeline character covers 15 minutes
+const TIMELINE_SLOTS_PER_HOUR = 4;
+
+// Minutes since midnight of the session's day; sessions closed at the day end count as 24:00
+function getMinuteOfDay(iso: string, day: string): number {
+  const date = new Date(iso);
+  if (formatDate(date) !== day) {
+    return 24 * 60;
+  }
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function formatDuration(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, "0")}m` : `${m}m`;
+}
+
+/**
+ * Common hour window for the timeline bars of all days, so bars line up vertically.
+ * Covers at least 08:00-18:00.
+ */
+export function getTimelineWindow(days: readonly DayStats[]): TimelineWindow {
+  let startHour = 8;
+  let endHour = 18;
+
+  for (const day of days) {
+    for (const session of day.sessions) {
+      startHour = Math.min(startHour, Math.floor(getMinuteOfDay(session.start, day.date) / 60));
+      endHour = Math.max(endHour, Math.ceil(getMinuteOfDay(session.end, day.date) / 60));
+    }
+  }
+
+  return { startHour, endHour: Math.min(endHour, 24) };
+}
+
+function renderTimelineBar(
+  sessions: readonly ClockSession[],
+  day: string,
+  window: TimelineWindow,
+): string {
+  const slotMinutes = 60 / TIMELINE_SLOTS_PER_HOUR;
+  const slots = (window.endHour - window.startHour) * TIMELINE_SLOTS_PER_HOUR;
+  let bar = "";
+
+  for (let i = 0; i < slots; i++) {
+    const slotStart = window.startHour * 60 + i * slotMinutes;
+    const slotEnd = slotStart + slotMinutes;
+    const covered = sessions.some(
+      (session) =>
+        getMinuteOfDay(session.start, day) < slotEnd &&
+        getMinuteOfDay(session.end, day) > slotStart,
+    );
+    bar += covered ? "#" : ".";
+  }
+
+  const startLabel = String(window.startHour).padStart(2, "0");
+  const endLabel = String(window.endHour).padStart(2, "0");
+  return `${c.dim(startLabel)} [${c.success(bar)}] ${c.dim(endLabel)}`;
+}
+
+/**
+ * Clock-in/clock-out intervals of a day with the breaks between them, first-in/last-out
+ * times and a timeline bar. In brief mode only the timeline bar is rendered.
+ */
+export function renderSessions(day: DayStats, window: TimelineWindow, brief = false): string[] {
+  if (day.sessions.length === 0) {
+    return brief ? [] : [c.line(`    ${c.dim("(no clock sessions)")}`)];
+  }
+
+  const lines: string[] = [c.line(`    ${renderTimelineBar(day.sessions, day.date, window)}`)];
+  if (brief) {
+    return lines;
+  }
+
+  const summary = summarizeSessions(day.sessions);
+  for (const [index, session] of summary.intervals.entries()) {
+    const gap = index > 0 ? summary.breaks.find((item) => item.end === session.start) : undefined;
+    if (gap) {
+      lines.push(c.line(`      ${c.dim(`break ${formatDuration(gap.hours)}`)}`));
+    }
+    const end = session.running ? "now" : formatTime(new Date(session.end));
+    const hours = formatHours(getSessionHours(session)).padStart(6, " ");
+    lines.push(
+      c.line(
+        `    ${c.info(formatTime(new Date(session.start)))}-${c.info(end.padEnd(5))} ${c.highlight(hours)}`,
+      ),
+    );
+  }
+
+  const firstIn = summary.firstIn ? formatTime(new Date(summary.firstIn)) : "-";
+  const lastOut = summary.lastOut ? formatTime(new Date(summary.lastOut)) : "running";
+  lines.push(
+    c.line(
+      `    ${c.dim(`first in ${firstIn}, last out ${lastOut}, breaks ${formatDuration(summary.breakHours)}`)}`,
+    ),
+  );
+
+  return lines;
+}
+
+function describeViolation(violation: ComplianceViolation): [string, string] {
+  const worked = formatDuration(violation.workedHours);
+  switch (violation.rule) {
+    case "break":
+      return [
+        "Break",
+        `${formatDuration(violation.actual)} of ${formatDuration(violation.limit)} required after ${worked} worked`,
+      ];
+    case "daily-max":
+      return ["Daily max", `${worked} worked, ${formatHours(violation.limit)} allowed`];
+    case "rest":
+      return [
+        "Rest period",
+        `${formatDuration(violation.actual)} since the previous day, ${formatHours(violation.limit)} required`,
+      ];
+  }
+}
+
+function describeRules(rules: ComplianceRules): string {
+  const breaks = rules.breaks.map(
+    (rule) => `${rule.minutes}m break after ${formatHours(rule.afterHours)}`,
+  );
+  return [
+    ...breaks,
+    `max ${formatHours(rules.maxDailyHours)}/day`,
+    `${formatHours(rules.minRestHours)} rest`,
+  ].join(", ");
+}
+
+/**
+ * Working-time violations of a compliance check, one row per violation with the
+ * missing break/rest time or the excess working time.
+ */
+export function renderCompliance(report: ComplianceReport): string[] {
+  const count = report.violations.length;
+  const header = c.line(
+    `Compliance ${c.dim(`(${report.checkedDays} day${report.checkedDays !== 1 ? "s" : ""} checked: ${describeRules(report.rules)})`)}`,
+  );
+
+  if (count === 0) {
+    return [header, c.line(`    ${c.success("No violations found.")}`)];
+  }
+
+  const table = new TableBuilder()
+    .column({ align: "left" }) // date
+    .column({ align: "left" }) // rule
+    .column({ align: "right" }) // amount
+    .column({ align: "left" }); // details
+
+  for (const violation of report.violations) {
+    const [label, details] = describeViolation(violation);
+    const amountLabel = violation.rule === "daily-max" ? "over" : "short";
+    table.addRow([
+      `    ${c.info(violation.date)} ${c.dim(`[${getDayName(violation.date)}]`)}`,
+      c.warning(label),
+      c.danger(`${formatDuration(violation.amount)} ${amountLabel}`),
+      c.dim(`(${details})`),
+    ]);
+  }
+
+  return [
+    header,
+    ...table.render().map((line) => c.line(line)),
+    "",
+    c.line(`    ${c.danger(`${count} violation${count !== 1 ? "s" : ""} found.`)}`),
+  ];
+}
+
+/**
+ * Overtime balance as of a date: booked and clocked hours above or below the target,
+ * accumulated since the configured start date.
+ */
+export function renderBalance(settings: BalanceConfig, asOf: string, balance: Balance): string[] {
+  const rules: string[] = [];
+  if (settings.startHours) {
+    rules.push(`starting at ${formatSignedHours(settings.startHours)}`);
+  }
+  if (settings.monthlyReset) {
+    rules.push("reset monthly");
+  } else if (settings.monthlyCap !== undefined) {
+    rules.push(`monthly carry-over capped at ${formatHours(settings.monthlyCap)}`);
+  }
+  const rulesNote = rules.length > 0 ? `, ${rules.join(", ")}` : "";
+
+  const table = new TableBuilder()
+    .column({ align: "left", minWidth: 12 }) // label
+    .column({ align: "right" }); // hours
+  table.addRow(["    Booked:", colorizeBalance(balance.booked)]);
+  table.addRow(["    Clocked:", colorizeBalance(balance.clocked)]);
+
+  return [
+    c.line(
+      `Overtime balance as of ${c.info(asOf)} ${c.dim(`(since ${settings.startDate}${rulesNote})`)}`,
+    ),
+    ...table.render().map((line) => c.line(line)),
+  ];
+}
+
+const DIMENSION_LABELS: Record<Report["dimensions"][number], string> = {
+  project: "Project",
+  issue: "Issue",
+  activity: "Activity",
+};
+
+// Same colors as the entry lines: project in yellow, issue in red
+function colorizeReportGroup(group: ReportGroup): string {
+  if (group.id === undefined) return c.dim(group.name);
+  if (group.dimension === "project") return c.warning(group.name);
+  if (group.dimension === "issue") return c.danger(group.name);
+  return group.name;
+}
+
+const PERIOD_TITLES: Record<PeriodUnit, string> = {
+  week: "Weekly totals",
+  month: "Monthly totals",
+};
+
+/**
+ * One row per week or month with target, booked and clocked hours, the booked share of
+ * the target and the booked/clocked efficiency.
+ */
+export function renderPeriods(
+  periods: readonly PeriodStats[],
+  unit: PeriodUnit,
+  fromDate: string,
+  toDate: string,
+): string[] {
+  const header = c.line(`${PERIOD_TITLES[unit]} ${c.dim(`(${fromDate} to ${toDate})`)}`);
+  if (periods.length === 0) {
+    return [header, c.line(`    ${c.dim("(no data)")}`)];
+  }
+
+  const table = new TableBuilder()
+    .column({ align: "left" }) // period
+    .column({ align: "left" }) // dates
+    .column({ align: "right" }) // target
+    .column({ align: "right" }) // net booked
+    .column({ align: "right" }) // gross booked
+    .column({ align: "right" }) // clocked
+    .column({ align: "right" }) // booked of target
+    .column({ align: "right" }) // efficiency
+    .column({ align: "right" }); // workdays
+
+  table.addRow(
+    [
+      "Period",
+      "Dates",
+      "Target",
+      "Booked",
+      "Gross",
+      "Clocked",
+      "% Target",
+      "Efficiency",
+      "Workdays",
+    ].map((label, i) => c.dim(i === 0 ? `    ${label}` : label)),
+  );
+
+  for (const period of periods) {
+    const bookedPct = period.target > 0 ? Math.round((period.netBooked / period.target) * 100) : 0;
+    const missing = period.missingDays > 0 ? c.danger(` (${period.missingDays} missing)`) : "";
+    table.addRow([
+      `    ${c.info(period.period)}`,
+      c.dim(`${period.from.slice(5)} to ${period.to.slice(5)}`),
+      formatHours(period.target),
+      c.highlight(formatHours(period.netBooked)),
+      c.dim(formatHours(period.grossBooked)),
+      formatHours(period.clocked),
+      period.target > 0 ? colorizePercentageValue(bookedPct) : c.dim("-"),
+      period.clocked > 0 ? `${period.efficiency}%` : c.dim("-"),
+      `${period.workdays}${missing}`,
+    ]);
+  }
+
+  return [header, ...table.render().map((line) => c.line(line)), ""];
+}
+
+/**
+ * Team matrix: one row per member with target, booked and clocked hours, efficiency and
+ * missing days, followed by stale-data notices and load errors per member.
+ */
+export function renderTeam(
+  results: readonly TeamMemberStats[],
+  fromDate: string,
+  toDate: string,
+): string[] {
+  const header = c.line(`Team report ${c.dim(`(${fromDate} to ${toDate})`)}`);
+  const table = new TableBuilder()
+    .column({ align: "left" }) // name
+    .column({ align: "right" }) // target
+    .column({ align: "right" }) // booked
+    .column({ align: "right" }) // booked %
+    .column({ align: "right" }) // clocked
+    .column({ align: "right" }) // clocked %
+    .column({ align: "right" }) // efficiency
+    .column({ align: "right" }); // missing
+
+  table.addRow(
+    ["Member", "Target", "Booked", "%", "Clocked", "%", "Efficiency", "Missing"].map((label, i) =>
+      c.dim(i === 0 ? `    ${label}` : label),
+    ),
+  );
+
+  const notes: string[] = [];
+  for (const { member, statsData, sources, error } of results) {
+    if (!statsData) {
+      table.addRow([`    ${c.info(member.name)}`, c.danger("failed"), "", "", "", "", "", ""]);
+      notes.push(c.line(`    ${c.danger(`${member.name}: ${error ?? "unknown error"}`)}`));
+      continue;
+    }
+
+    const { summary } = statsData;
+    table.addRow([
+      `    ${c.info(member.name)}`,
+      formatHours(summary.targetTotal),
+      c.highlight(formatHours(summary.booked.total)),
+      colorizePercentageValue(summary.percentages.booked),
+      c.highlight(formatHours(summary.clocked.total)),
+      colorizePercentageValue(summary.percentages.clocked),
+      summary.clocked.total > 0 ? colorizePercentageValue(summary.percentages.efficiency) : "-",
+      summary.missingDays > 0 ? c.danger(String(summary.missingDays)) : c.dim("0"),
+    ]);
+    for (const line of renderSourceNotice(sources)) {
+      notes.push(c.line(`    ${member.name}: ${line}`));
+    }
+  }
+
+  const lines = [header, ...table.render().map((line) => c.line(line))];
+  if (notes.length > 0) {
+    lines.push("", ...notes);
+  }
+  return lines;
+}
+
+/**
+ * Booked hours grouped by project, issue and/or activity, with each group's share of
+ * the net booked hours and the number of days it was booked on.
+ */
+export function renderReport(report: Report, fromDate: string, toDate: string): string[] {
+  const byLabel = report.dimensions.map((dimension) => DIMENSION_LABELS[dimension].toLowerCase());
+  const header = c.line(`Report by ${byLabel.join(", ")} ${c.dim(`(${fromDate} to ${toDate})`)}`);
+
+  if (report.rows.length === 0) {
+    return [header, c.line(`    ${c.dim("(no bookings)")}`)];
+  }
+
+  const table = new TableBuilder();
+  for (const _dimension of report.dimensions) {
+    table.column({ align: "left" });
+  }
+  table
+    .column({ align: "right" }) // hours
+    .column({ align: "right" }) // share
+    .column({ align: "right" }); // days
+
+  const indent = (cells: string[]): string[] =>
+    cells.map((cell, i) => (i === 0 ? `    ${cell}` : cell));
+
+  table.addRow(
+    indent([
+      ...report.dimensions.map((dimension) => c.dim(DIMENSION_LABELS[dimension])),
+      c.dim("Hours"),
+      c.dim("Share"),
+      c.dim("Days"),
+    ]),
+  );
+
+  for (const row of report.rows) {
+    table.addRow(
+      indent([
+        ...row.groups.map(colorizeReportGroup),
+        c.highlight(formatHours(row.hours)),
+        `${row.share}%`,
+        String(row.days),
+      ]),
+    );
+  }
+
+  table.addRow(
+    indent([
+      c.info("Total"),
+      ...report.dimensions.slice(1).map(() => ""),
+      c.highlight(formatHours(report.totalHours)),
+      "100%",
+      String(report.totalDays),
+    ]),
+  );
+
+  const lines = [header, ...table.render().map((line) => c.line(line))];
+  if (report.ignoredHours > 0) {
+    lines.push(
+      c.line(
+        `    ${c.dim(`(${formatHours(report.ignoredHours)} on ignored tickets not included)`)}`,
+      ),
+    );
+  }
+  return lines;
+}
+
+// Lint findings below a day's entries in the normal view
+export function renderLintWarnings(findings: readonly LintFinding[]): string[] {
+  return findings.map((finding) =>
+    c.line(`      ${c.warning(`! entry ${finding.entryId}: ${finding.message}`)}`),
+  );
+}
+
+/**
+ * Lint findings for a range, one row per finding with the entry, the rule and a
+ * description of the problem.
+ */
+export function renderLint(result: LintResult, fromDate: string, toDate: string): string[] {
+  const count = result.findings.length;
+  const header = c.line(
+    `Lint ${c.dim(`(${result.checkedEntries} entr${result.checkedEntries !== 1 ? "ies" : "y"} checked, ${fromDate} to ${toDate})`)}`,
+  );
+
+  if (count === 0) {
+    return [header, c.line(`    ${c.success("No findings.")}`)];
+  }
+
+  const table = new TableBuilder()
+    .column({ align: "left" }) // date
+    .column({ align: "right" }) // entry id
+    .column({ align: "right" }) // hours
+    .column({ align: "left" }) // issue
+    .column({ align: "left" }) // rule
+    .column({ align: "left" }); // message
+
+  for (const finding of result.findings) {
+    table.addRow([
+      `    ${c.info(finding.date)} ${c.dim(`[${getDayName(finding.date)}]`)}`,
+      c.dim(String(finding.entryId)),
+      c.highlight(formatHours(finding.hours)),
+      c.danger(finding.issueId !== undefined ? `#${finding.issueId}` : "#N/A"),
+      c.warning(finding.rule),
+      finding.message,
+    ]);
+  }
+
+  return [
+    header,
+    ...table.render().map((line) => c.line(line)),
+    "",
+    c.line(`    ${c.danger(`${count} finding${count !== 1 ? "s" : ""}.`)}`),
+  ];
+}
+
+function describeAnomaly(anomaly: Anomaly): [string, string] {
+  const hours = `${formatHours(anomaly.booked)} booked / ${formatHours(anomaly.clocked)} clocked`;
+  switch (anomaly.kind) {
+    case "booked-not-clocked":
+      return ["Booked, not clocked", `(${hours})`];
+    case "clocked-not-booked":
+      return ["Clocked, not booked", `(${hours})`];
+    case "overbooked":
+      return ["Overbooked", `(${hours}, ${formatHours(anomaly.difference)} more booked)`];
+    case "wrong-date":
+      return [
+        "Wrong date?",
+        `(${formatHours(anomaly.difference)} surplus, matching deficit on ${anomaly.relatedDate} [${getDayName(anomaly.relatedDate!)}])`,
+      ];
+  }
+}
+
+/**
+ * Days where booked and clocked hours don't add up, shown below the summary. Returns no
+ * lines if there is nothing to report.
+ */
+export function renderAnomalies(anomalies: readonly Anomaly[]): string[] {
+  if (anomalies.length === 0) {
+    return [];
+  }
+
+  const table = new TableBuilder()
+    .column({ align: "left" }) // date
+    .column({ align: "left" }) // kind
+    .column({ align: "left" }); // details
+
+  for (const anomaly of anomalies) {
+    const [label, details] = describeAnomaly(anomaly);
+    table.addRow([
+      `    ${c.info(anomaly.date)} ${c.dim(`[${getDayName(anomaly.date)}]`)}`,
+      c.warning(label),
+      c.dim(details),
+    ]);
+  }
+
+  return [c.line(c.warning("Attention")), ...table.render().map((line) => c.line(line))];
+}
+
+// Field-by-field comparison of a time entry before and after an edit
+export function renderEntryChanges(before: TimeEntry, after: TimeEntry): string[] {
+  const issueRef = (entry: TimeEntry) => (entry.issue ? `#${entry.issue.id}` : "#N/A");
+  const fields: Array<[string, string, string]> = [
+    ["Date:", before.spent_on, after.spent_on],
+    ["Hours:", formatHours(before.hours), formatHours(after.hours)],
+    ["Issue:", issueRef(before), issueRef(after)],
+    ["Activity:", before.activity?.name ?? "-", after.activity?.name ?? "-"],
+    ["Comment:", before.comments || "(no comment)", after.comments || "(no comment)"],
+  ];
+
+  const table = new TableBuilder();
+  table
+    .column({ align: "left", minWidth: 13 }) // label
+    .column({ align: "left" }) // before
+    .column({ align: "center", width: 1 }) // arrow
+    .column({ align: "left" }); // after
+
+  for (const [label, oldValue, newValue] of fields) {
+    if (oldValue === newValue) {
+      table.addRow([`    ${label}`, c.dim(oldValue), "", ""]);
+    } else {
+      table.addRow([`    ${label}`, c.danger(oldValue), "→", c.success(newValue)]);
+    }
+  }
+
+  return table.render().map((line) => c.line(line));
+}
+
+const COMPARE_LABELS: Record<Comparison["mode"], string> = {
+  previous: "previous period",
+  "last-year": "last year",
+};
+
+// Change against the compared range with an arrow, e.g. "▲ +4.50h"
+function formatDelta(value: number, format: (value: number) => string): string {
+  if (Math.abs(value) < 0.005) {
+    return c.dim(`= ${format(0)}`);
+  }
+  const text = `${value > 0 ? "▲ +" : "▼ "}${format(value)}`;
+  return value > 0 ? c.success(text) : c.warning(text);
+}
+
+function buildSummaryTable(
+  data: SummaryData,
+  comparison?: Comparison,
+): { lines: string[]; maxWidth: number } {
   const table = new TableBuilder();
   const bookedSign = data.discrepancies.booked > 0 ? "+" : "";
   const clockedSign = data.discrepancies.clocked > 0 ? "+" : "";
@@ -70,6 +690,10 @@ function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: numb
     .column({ align: "center", width: 1 }) // =
     .column({ align: "right" }) // %
     .column({ align: "left" }); // note
+  if (comparison) {
+    table.column({ align: "left" }); // delta
+  }
+  const delta = (cell: string): string[] => (comparison ? [cell] : []);
 
   const pastDaysTarget = data.targetTotal - data.partialCurrentDayTarget;
 
@@ -81,6 +705,7 @@ function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: numb
     "",
     "",
     "",
+    ...delta(""),
   ]);
 
   table.addRow([
@@ -91,6 +716,7 @@ function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: numb
     "=",
     colorizePercentageValue(data.percentages.booked),
     c.dim(`(${bookedSign}${formatHours(data.discrepancies.booked)})`),
+    ...delta(comparison ? formatDelta(comparison.deltas.booked, formatHours) : ""),
   ]);
 
   table.addRow([
@@ -101,6 +727,7 @@ function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: numb
     "=",
     colorizePercentageValue(data.percentages.clocked),
     c.dim(`(${clockedSign}${formatHours(data.discrepancies.clocked)})`),
+    ...delta(comparison ? formatDelta(comparison.deltas.clocked, formatHours) : ""),
   ]);
 
   table.addRow([
@@ -111,19 +738,41 @@ function buildSummaryTable(data: SummaryData): { lines: string[]; maxWidth: numb
     "",
     colorizePercentageValue(data.percentages.efficiency),
     c.dim("(booked/clocked ratio)"),
+    ...delta(comparison ? formatDelta(comparison.deltas.efficiency, (value) => `${value}%`) : ""),
   ]);
 
+  if (comparison) {
+    table.addRow([
+      "    Workdays:",
+      c.highlight(String(data.workdays)),
+      "",
+      "",
+      "",
+      "",
+      "",
+      formatDelta(comparison.deltas.workdays, String),
+    ]);
+  }
+
   const lines = table.render();
   const maxWidth = Math.max(...lines.map((line) => stripAnsi(line).length));
 
   return { lines, maxWidth };
 }
 
-export function renderSummary(data: SummaryData): string[] {
-  const { lines, maxWidth } = buildSummaryTable(data);
+/**
+ * Summary table of the range. With a comparison, a column shows the change of booked and
+ * clocked hours, efficiency and workdays against the earlier range, and a footer the
+ * compared range.
+ */
+export function renderSummary(data: SummaryData, comparison?: Comparison): string[] {
+  const { lines, maxWidth } = buildSummaryTable(data, comparison);
 
+  const holidayNote =
+    data.holidays > 0 ? `, ${data.holidays} holiday${data.holidays !== 1 ? "s" : ""}` : "";
+  const missingNote = data.missingDays > 0 ? `, ${data.missingDays} missing` : "";
   const header = c.line(
-    `Summary ${c.dim(`(past ${data.workdays} workday${data.workdays !== 1 ? "s" : ""})`)}`,
+    `Summary ${c.dim(`(past ${data.workdays} workday${data.workdays !== 1 ? "s" : ""}${holidayNote}${missingNote})`)}`,
   );
   const separatorWidth = Math.max(maxWidth, stripAnsi(header).length);
   const separator = c.line("─".repeat(separatorWidth));
@@ -133,5 +782,14 @@ export function renderSummary(data: SummaryData): string[] {
   result.push(header);
   result.push(...lines);
 
+  if (comparison) {
+    const earlier = comparison.summary;
+    result.push(
+      c.line(
+        `    ${c.dim(`vs. ${COMPARE_LABELS[comparison.mode]} ${comparison.from} to ${comparison.to}:`)} ${formatHours(earlier.booked.total)} booked, ${formatHours(earlier.clocked.total)} clocked, ${earlier.percentages.efficiency}% efficiency, ${earlier.workdays} workday${earlier.workdays !== 1 ? "s" : ""}`,
+      ),
+    );
+  }
+
   return result;
 }
@@ -0,0 +1,164 @@
+import { formatHours } from "../utils.js";
+import { VERSION } from "../version.js";
+import type { TimeEntry } from "../redmine.js";
+import { summarizeSessions } from "../sessions.js";
+import type { StatsData } from "./types.js";
+
+export const BOOKING_MODES = ["all-day", "stacked"] as const;
+
+export type BookingMode = (typeof BOOKING_MODES)[number];
+
+export interface IcsOptions {
+  // Include Redmine bookings, as all-day events or stacked from the first clock-in
+  bookings?: BookingMode;
+}
+
+// Stacked bookings on days without clock sessions start at this local time
+const STACKED_START_HOUR = 8;
+
+// Content lines longer than this many octets are folded (RFC 5545, 3.1)
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// Escape TEXT property values (RFC 5545, 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Split a content line into chunks of at most 75 octets without breaking UTF-8 sequences;
+// continuation lines start with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+// UTC date-time in basic format, e.g. 20261019T071500Z
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+function getBookingSummary(entry: TimeEntry, statsData: StatsData): string {
+  const subject = entry.issue ? statsData.issues.get(entry.issue.id)?.subject : undefined;
+  const issue = entry.issue ? `#${entry.issue.id}${subject ? ` ${subject}` : ""}` : undefined;
+  return `${formatHours(entry.hours)} ${issue ?? entry.project.name}`;
+}
+
+function getBookingDescription(entry: TimeEntry): string {
+  return [
+    entry.issue ? `Issue: #${entry.issue.id}` : undefined,
+    `Project: ${entry.project.name}`,
+    `Activity: ${entry.activity.name}`,
+    `Hours: ${formatHours(entry.hours)}`,
+    entry.comments ? `Comment: ${entry.comments}` : undefined,
+  ]
+    .filter((line) => line !== undefined)
+    .join("\n");
+}
+
+function renderBookings(statsData: StatsData, mode: BookingMode, timestamp: string): string[][] {
+  const events: string[][] = [];
+
+  for (const day of statsData.days) {
+    // Stacked bookings follow each other from the first clock-in of the day
+    const { firstIn } = summarizeSessions(day.sessions);
+    let start = firstIn
+      ? new Date(firstIn)
+      : new Date(`${day.date}T${String(STACKED_START_HOUR).padStart(2, "0")}:00:00`);
+
+    for (const entry of day.entries) {
+      const end = new Date(start.getTime() + entry.hours * 60 * 60 * 1000);
+      const timing =
+        mode === "all-day"
+          ? [
+              `DTSTART;VALUE=DATE:${formatDateValue(day.date)}`,
+              `DTEND;VALUE=DATE:${formatDateValue(nextDate(day.date))}`,
+              "TRANSP:TRANSPARENT",
+            ]
+          : [`DTSTART:${formatDateTime(start)}`, `DTEND:${formatDateTime(end)}`];
+      start = end;
+
+      events.push([
+        `UID:entry-${entry.id}@whstats`,
+        `DTSTAMP:${timestamp}`,
+        ...timing,
+        `SUMMARY:${escapeText(getBookingSummary(entry, statsData))}`,
+        `DESCRIPTION:${escapeText(getBookingDescription(entry))}`,
+        "CATEGORIES:Booked",
+      ]);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * iCalendar (RFC 5545) file with one event per clock session, plus the Redmine bookings
+ * if requested. A running session ends at the time of the query and is marked as such.
+ */
+export function render(statsData: StatsData, options: IcsOptions = {}): string {
+  const timestamp = formatDateTime(new Date());
+  const events: string[][] = [];
+
+  for (const day of statsData.days) {
+    for (const session of day.sessions) {
+      events.push([
+        `UID:clock-${formatDateTime(new Date(session.start))}@whstats`,
+        `DTSTAMP:${timestamp}`,
+        `DTSTART:${formatDateTime(new Date(session.start))}`,
+        `DTEND:${formatDateTime(new Date(session.end))}`,
+        `SUMMARY:${session.running ? "Clocked in (running)" : "Clocked in"}`,
+        "CATEGORIES:Clocked",
+      ]);
+    }
+  }
+
+  if (options.bookings) {
+    events.push(...renderBookings(statsData, options.bookings, timestamp));
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//whstats//whstats ${VERSION}//EN`,
+    "CALSCALE:GREGORIAN",
+    ...events.flatMap((event) => ["BEGIN:VEVENT", ...event, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,11 +1,29 @@
-import type { DayStats, StatsData } from "./types.js";
-import type { TimeEntry } from "../redmine.js";
+import type { DayStats, StatsData, SummaryData } from "./types.js";
+import type { Anomaly } from "../anomalies.js";
+import type { Balance } from "../balance.js";
+import type { SourceStatus } from "../cache.js";
+import type { BalanceConfig } from "../config.js";
+import type { Comparison, CompareMode, ComparisonDeltas } from "../compare.js";
+import type { ComplianceReport, ComplianceRules, ComplianceViolation } from "../compliance.js";
+import { getSessionHours, summarizeSessions } from "../sessions.js";
+import type { LintResult, LintSettings } from "../lint.js";
+import type { PeriodStats, PeriodUnit } from "../periods.js";
+import type { Issue, TimeEntry } from "../redmine.js";
+import type { Report, ReportDimension } from "../report.js";
+import type { TeamMemberStats } from "../team.js";
 import { VERSION } from "../version.js";
 
 interface JsonEntry {
   id: number;
   project: { id: number; name: string };
-  issue?: { id: number };
+  issue?: {
+    id: number;
+    subject?: string;
+    tracker?: string;
+    status?: string;
+    closed?: boolean;
+    parent?: { id: number };
+  };
   hours: number;
   comments: string;
 }
@@ -17,11 +35,29 @@ interface JsonDay {
   netBooked: number;
   clocked: number;
   excludedFromNet: boolean;
+  holiday?: string;
+  missing: boolean;
+  unknown?: boolean;
+  isWorkday: boolean;
+  target: number;
   entries: JsonEntry[];
+  sessions?: JsonSessions;
+  balance?: Balance;
+}
+
+interface JsonSessions {
+  firstIn?: string;
+  lastOut?: string;
+  clockedHours: number;
+  breakHours: number;
+  intervals: Array<{ start: string; end: string; hours: number; running: boolean }>;
+  breaks: Array<{ start: string; end: string; hours: number }>;
 }
 
 interface JsonSummary {
   workdays: number;
+  holidays: number;
+  missingDays: number;
   targetHoursPerDay: number;
   targetTotal: number;
   hasPartialCurrentDayTarget: boolean;
@@ -34,32 +70,191 @@ interface JsonSummary {
   isClockRunningToday: boolean;
 }
 
+interface JsonComparison {
+  mode: CompareMode;
+  dateRange: { from: string; to: string };
+  summary: JsonSummary;
+  deltas: ComparisonDeltas;
+}
+
 interface JsonMeta {
   version: string;
   generatedAt: string;
   dateRange: { from: string; to: string };
+  sources: JsonSource[];
+}
+
+interface JsonSource {
+  source: string;
+  stale: boolean;
+  asOf?: string;
+  uncachedDays?: number;
+  reason?: string;
+}
+
+interface JsonComplianceOutput {
+  meta: JsonMeta;
+  rules: ComplianceRules;
+  checkedDays: number;
+  violations: ComplianceViolation[];
+}
+
+interface JsonBalanceOutput {
+  meta: JsonMeta;
+  asOf: string;
+  settings: BalanceConfig;
+  balance: Balance;
+}
+
+type JsonReportRow = Partial<Record<ReportDimension, { id?: number; name: string }>> & {
+  hours: number;
+  share: number;
+  days: number;
+};
+
+interface JsonReportOutput {
+  meta: JsonMeta;
+  dimensions: ReportDimension[];
+  rows: JsonReportRow[];
+  total: { hours: number; days: number; ignoredHours: number };
+}
+
+interface JsonTeamMember {
+  name: string;
+  redmineUserId: number;
+  timeloggerUserId: string;
+  summary?: JsonSummary;
+  sources: JsonSource[];
+  error?: string;
+}
+
+interface JsonTeamOutput {
+  meta: JsonMeta;
+  members: JsonTeamMember[];
+}
+
+interface JsonLintOutput {
+  meta: JsonMeta;
+  settings: LintSettings;
+  checkedEntries: number;
+  findings: LintResult["findings"];
+}
+
+interface JsonPeriodsOutput {
+  meta: JsonMeta;
+  groupBy: PeriodUnit;
+  periods: PeriodStats[];
+  summary: JsonSummary;
+  comparison?: JsonComparison;
 }
 
 interface JsonOutput {
   meta: JsonMeta;
   summary?: JsonSummary;
+  comparison?: JsonComparison;
   days: JsonDay[];
+  anomalies: Anomaly[];
 }
 
-function transformEntry(entry: TimeEntry): JsonEntry {
+function transformIssue(issueId: number, issue?: Issue): JsonEntry["issue"] {
+  return {
+    id: issueId,
+    subject: issue?.subject,
+    tracker: issue?.tracker?.name,
+    status: issue?.status?.name,
+    closed: issue?.status?.is_closed,
+    parent: issue?.parent,
+  };
+}
+
+function transformEntry(entry: TimeEntry, issues: ReadonlyMap<number, Issue>): JsonEntry {
   return {
     id: entry.id,
     project: {
       id: entry.project.id,
       name: entry.project.name,
     },
-    issue: entry.issue ? { id: entry.issue.id } : undefined,
+    issue: entry.issue ? transformIssue(entry.issue.id, issues.get(entry.issue.id)) : undefined,
     hours: entry.hours,
     comments: entry.comments ?? "(no comment)",
   };
 }
 
-function transformDay(day: DayStats, brief = false): JsonDay {
+function buildMeta(fromDate: string, toDate: string, sources: readonly SourceStatus[]): JsonMeta {
+  return {
+    version: VERSION,
+    generatedAt: new Date().toISOString(),
+    dateRange: {
+      from: fromDate,
+      to: toDate,
+    },
+    sources: sources.map(transformSource),
+  };
+}
+
+function transformSource(source: SourceStatus): JsonSource {
+  if (source.live) {
+    return { source: source.source, stale: false };
+  }
+  return {
+    source: source.source,
+    stale: true,
+    asOf: source.asOf,
+    uncachedDays: source.uncachedDays,
+    reason: source.reason,
+  };
+}
+
+function transformSessions(day: DayStats): JsonSessions {
+  const summary = summarizeSessions(day.sessions);
+  return {
+    firstIn: summary.firstIn,
+    lastOut: summary.lastOut,
+    clockedHours: summary.clockedHours,
+    breakHours: summary.breakHours,
+    intervals: summary.intervals.map((session) => ({
+      start: session.start,
+      end: session.end,
+      hours: getSessionHours(session),
+      running: session.running,
+    })),
+    breaks: summary.breaks,
+  };
+}
+
+function transformSummary(summary: SummaryData): JsonSummary {
+  return {
+    workdays: summary.workdays,
+    holidays: summary.holidays,
+    missingDays: summary.missingDays,
+    targetHoursPerDay: summary.targetHoursPerDay,
+    targetTotal: summary.targetTotal,
+    hasPartialCurrentDayTarget: summary.hasPartialCurrentDayTarget,
+    partialCurrentDayTarget: summary.partialCurrentDayTarget,
+    booked: summary.booked,
+    clocked: summary.clocked,
+    discrepancies: summary.discrepancies,
+    percentages: summary.percentages,
+    currentDate: summary.currentDate,
+    isClockRunningToday: summary.isClockRunningToday,
+  };
+}
+
+function transformComparison(comparison: Comparison): JsonComparison {
+  return {
+    mode: comparison.mode,
+    dateRange: { from: comparison.from, to: comparison.to },
+    summary: transformSummary(comparison.summary),
+    deltas: comparison.deltas,
+  };
+}
+
+function transformDay(
+  day: DayStats,
+  issues: ReadonlyMap<number, Issue>,
+  brief = false,
+  sessions = false,
+): JsonDay {
   return {
     date: day.date,
     dayName: day.dayName,
@@ -67,7 +262,14 @@ function transformDay(day: DayStats, brief = false): JsonDay {
     netBooked: day.netBooked,
     clocked: day.clocked,
     excludedFromNet: day.excludedFromNet,
-    entries: brief ? [] : day.entries.map(transformEntry),
+    holiday: day.holiday,
+    missing: day.missing,
+    unknown: day.unknown,
+    isWorkday: day.isWorkday,
+    target: day.target,
+    entries: brief ? [] : day.entries.map((entry) => transformEntry(entry, issues)),
+    sessions: sessions ? transformSessions(day) : undefined,
+    balance: day.balance,
   };
 }
 
@@ -76,31 +278,134 @@ export function render(
   fromDate: string,
   toDate: string,
   brief = false,
+  sources: readonly SourceStatus[] = [],
+  sessions = false,
+  anomalies: readonly Anomaly[] = [],
+  comparison?: Comparison,
 ): string {
   const output: JsonOutput = {
-    meta: {
-      version: VERSION,
-      generatedAt: new Date().toISOString(),
-      dateRange: {
-        from: fromDate,
-        to: toDate,
-      },
-    },
-    days: statsData.days.map((day) => transformDay(day, brief)),
-    summary: {
-      workdays: statsData.summary.workdays,
-      targetHoursPerDay: statsData.summary.targetHoursPerDay,
-      targetTotal: statsData.summary.targetTotal,
-      hasPartialCurrentDayTarget: statsData.summary.hasPartialCurrentDayTarget,
-      partialCurrentDayTarget: statsData.summary.partialCurrentDayTarget,
-      booked: statsData.summary.booked,
-      clocked: statsData.summary.clocked,
-      discrepancies: statsData.summary.discrepancies,
-      percentages: statsData.summary.percentages,
-      currentDate: statsData.summary.currentDate,
-      isClockRunningToday: statsData.summary.isClockRunningToday,
+    meta: buildMeta(fromDate, toDate, sources),
+    days: statsData.days.map((day) => transformDay(day, statsData.issues, brief, sessions)),
+    summary: transformSummary(statsData.summary),
+    comparison: comparison ? transformComparison(comparison) : undefined,
+    anomalies: [...anomalies],
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+export function renderPeriods(
+  statsData: StatsData,
+  periods: readonly PeriodStats[],
+  unit: PeriodUnit,
+  fromDate: string,
+  toDate: string,
+  sources: readonly SourceStatus[] = [],
+  comparison?: Comparison,
+): string {
+  const output: JsonPeriodsOutput = {
+    meta: buildMeta(fromDate, toDate, sources),
+    groupBy: unit,
+    periods: [...periods],
+    summary: transformSummary(statsData.summary),
+    comparison: comparison ? transformComparison(comparison) : undefined,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+export function renderCompliance(
+  report: ComplianceReport,
+  fromDate: string,
+  toDate: string,
+  sources: readonly SourceStatus[] = [],
+): string {
+  const output: JsonComplianceOutput = {
+    meta: buildMeta(fromDate, toDate, sources),
+    rules: report.rules,
+    checkedDays: report.checkedDays,
+    violations: report.violations,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+export function renderBalance(
+  settings: BalanceConfig,
+  asOf: string,
+  balance: Balance,
+  sources: readonly SourceStatus[] = [],
+): string {
+  const output: JsonBalanceOutput = {
+    meta: buildMeta(settings.startDate, asOf, sources),
+    asOf,
+    settings,
+    balance,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+export function renderReport(
+  report: Report,
+  fromDate: string,
+  toDate: string,
+  sources: readonly SourceStatus[] = [],
+): string {
+  const output: JsonReportOutput = {
+    meta: buildMeta(fromDate, toDate, sources),
+    dimensions: report.dimensions,
+    rows: report.rows.map((row) => ({
+      ...Object.fromEntries(
+        row.groups.map((group) => [group.dimension, { id: group.id, name: group.name }]),
+      ),
+      hours: row.hours,
+      share: row.share,
+      days: row.days,
+    })),
+    total: {
+      hours: report.totalHours,
+      days: report.totalDays,
+      ignoredHours: report.ignoredHours,
     },
   };
 
   return JSON.stringify(output, null, 2);
 }
+
+export function renderTeam(
+  results: readonly TeamMemberStats[],
+  fromDate: string,
+  toDate: string,
+): string {
+  const output: JsonTeamOutput = {
+    meta: buildMeta(fromDate, toDate, []),
+    members: results.map(({ member, statsData, sources, error }) => ({
+      name: member.name,
+      redmineUserId: member.redmineUserId,
+      timeloggerUserId: member.timeloggerUserId,
+      summary: statsData ? transformSummary(statsData.summary) : undefined,
+      sources: sources.map(transformSource),
+      error,
+    })),
+  };
+
+  return JSON.stringify(output, null, 2);
+}
+
+export function renderLint(
+  result: LintResult,
+  settings: LintSettings,
+  fromDate: string,
+  toDate: string,
+  sources: readonly SourceStatus[] = [],
+): string {
+  const output: JsonLintOutput = {
+    meta: buildMeta(fromDate, toDate, sources),
+    settings,
+    checkedEntries: result.checkedEntries,
+    findings: result.findings,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
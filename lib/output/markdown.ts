@@ -0,0 +1,137 @@
+import { formatHours, formatSignedHours, getDayNote, isIgnoredEntry } from "../utils.js";
+import type { DayStats, StatsData, SummaryData } from "./types.js";
+
+// Keep cell content on one line and prevent it from splitting the table
+function escapeCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function table(headers: string[], align: Array<"left" | "right">, rows: string[][]): string[] {
+  const separator = align.map((side) => (side === "right" ? "---:" : "---"));
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${separator.join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ];
+}
+
+function renderDays(days: readonly DayStats[]): string[] {
+  return table(
+    ["Date", "Day", "Booked", "Clocked", "Target", "Note"],
+    ["left", "left", "right", "right", "right", "left"],
+    days.map((day) => [
+      day.date,
+      day.dayName,
+      formatHours(day.grossBooked),
+      day.clocked > 0 ? formatHours(day.clocked) : "-",
+      formatHours(day.target),
+      getDayNote(day),
+    ]),
+  );
+}
+
+function renderEntries(statsData: StatsData, ignoredTicketIds: ReadonlySet<number>): string[] {
+  const rows: string[][] = [];
+  for (const day of statsData.days) {
+    for (const entry of day.entries) {
+      const issue = entry.issue ? statsData.issues.get(entry.issue.id) : undefined;
+      const issueRef = entry.issue ? `#${entry.issue.id}` : "";
+      const comment = entry.comments || "(no comment)";
+      rows.push([
+        day.date,
+        formatHours(entry.hours),
+        entry.project.name,
+        issue ? `${issueRef} ${issue.subject}` : issueRef,
+        entry.activity.name,
+        isIgnoredEntry(entry, ignoredTicketIds) ? `${comment} (ignored)` : comment,
+      ]);
+    }
+  }
+  return table(
+    ["Date", "Hours", "Project", "Issue", "Activity", "Comment"],
+    ["left", "right", "left", "left", "left", "left"],
+    rows,
+  );
+}
+
+function renderSummaryTable(data: SummaryData): string[] {
+  const pastTarget = data.targetTotal - data.partialCurrentDayTarget;
+  return table(
+    ["", "Past", "Today", "Total", "%", "Difference"],
+    ["left", "right", "right", "right", "right", "right"],
+    [
+      [
+        "Target",
+        formatHours(pastTarget),
+        formatHours(data.partialCurrentDayTarget),
+        formatHours(data.targetTotal),
+        "",
+        "",
+      ],
+      [
+        "Booked",
+        formatHours(data.booked.past),
+        formatHours(data.booked.today),
+        formatHours(data.booked.total),
+        `${data.percentages.booked}%`,
+        formatSignedHours(data.discrepancies.booked),
+      ],
+      [
+        "Clocked",
+        formatHours(data.clocked.past),
+        formatHours(data.clocked.today),
+        formatHours(data.clocked.total),
+        `${data.percentages.clocked}%`,
+        formatSignedHours(data.discrepancies.clocked),
+      ],
+    ],
+  );
+}
+
+/**
+ * GitHub-flavored Markdown report: day list, entries (unless brief) and summary as
+ * tables, for pasting into wikis and chat.
+ */
+export function render(
+  statsData: StatsData,
+  fromDate: string,
+  toDate: string,
+  ignoredTicketIds: ReadonlySet<number>,
+  brief = false,
+): string {
+  const { summary } = statsData;
+  const lines = [`## Time report ${fromDate} to ${toDate}`, "", ...renderDays(statsData.days), ""];
+
+  if (!brief) {
+    lines.push("### Entries", "", ...renderEntries(statsData, ignoredTicketIds), "");
+  }
+
+  lines.push(
+    `### Summary (${summary.workdays} workday${summary.workdays !== 1 ? "s" : ""})`,
+    "",
+    ...renderSummaryTable(summary),
+    "",
+    `Efficiency: ${summary.percentages.efficiency}% (booked/clocked ratio)`,
+  );
+
+  return lines.join("\n");
+}
+
+// One-paragraph summary, e.g. for a weekly status message
+export function renderCompact(statsData: StatsData, fromDate: string, toDate: string): string {
+  const { summary } = statsData;
+  const notes = [
+    `${summary.workdays} workday${summary.workdays !== 1 ? "s" : ""}`,
+    ...(summary.holidays > 0
+      ? [`${summary.holidays} holiday${summary.holidays !== 1 ? "s" : ""}`]
+      : []),
+    ...(summary.missingDays > 0 ? [`${summary.missingDays} missing`] : []),
+  ];
+
+  return (
+    `**${fromDate} to ${toDate}:** ` +
+    `${formatHours(summary.booked.total)} booked (${summary.percentages.booked}% of ${formatHours(summary.targetTotal)} target, ${formatSignedHours(summary.discrepancies.booked)}), ` +
+    `${formatHours(summary.clocked.total)} clocked (${summary.percentages.clocked}%, ${formatSignedHours(summary.discrepancies.clocked)}), ` +
+    `efficiency ${summary.percentages.efficiency}%. ${notes.join(", ")}.`
+  );
+}
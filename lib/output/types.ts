@@ -1,4 +1,6 @@
-import type { TimeEntry } from "../redmine.js";
+import type { Balance } from "../balance.js";
+import type { ClockSession } from "../mssql.js";
+import type { Issue, TimeEntry } from "../redmine.js";
 
 export interface DayStats {
   date: string;
@@ -7,11 +9,25 @@ export interface DayStats {
   netBooked: number;
   clocked: number;
   excludedFromNet: boolean;
+  holiday?: string;
+  // Expected workday without any bookings or clocked time
+  missing: boolean;
+  // Whether the day counts as a workday (has a non-zero scheduled target)
+  isWorkday: boolean;
+  // Target hours applied to this day (0 for holidays, excluded and unknown days)
+  target: number;
+  // No cached data for the day while a source was offline or unreachable
+  unknown?: boolean;
   entries: TimeEntry[];
+  sessions: ClockSession[];
+  // Cumulative overtime balance at the end of the day, if a balance is configured
+  balance?: Balance;
 }
 
 export interface SummaryData {
   workdays: number;
+  holidays: number;
+  missingDays: number;
   targetHoursPerDay: number;
   targetTotal: number;
   hasPartialCurrentDayTarget: boolean;
@@ -27,4 +43,6 @@ export interface SummaryData {
 export interface StatsData {
   days: DayStats[];
   summary: SummaryData;
+  // Details of the booked issues, if loaded
+  issues: ReadonlyMap<number, Issue>;
 }
@@ -0,0 +1,83 @@
+import { getIsoWeek, getIsoWeekRange, getMonthRange, parseDate } from "./utils.js";
+import type { DayStats } from "./output/types.js";
+
+export const PERIOD_UNITS = ["week", "month"] as const;
+
+export type PeriodUnit = (typeof PERIOD_UNITS)[number];
+
+export interface PeriodStats {
+  // ISO week (2026-W42) or month (2026-10)
+  period: string;
+  // Bounds of the period, clipped to the requested range
+  from: string;
+  to: string;
+  target: number;
+  grossBooked: number;
+  netBooked: number;
+  clocked: number;
+  // Net booked hours as percentage of clocked hours
+  efficiency: number;
+  workdays: number;
+  holidays: number;
+  missingDays: number;
+}
+
+function getPeriod(date: string, unit: PeriodUnit): { period: string; from: string; to: string } {
+  const [year, month] = date.split("-").map(Number) as [number, number];
+  if (unit === "month") {
+    return { period: date.slice(0, 7), ...getMonthRange(year, month) };
+  }
+  const week = getIsoWeek(parseDate(date)!);
+  return {
+    period: `${week.year}-W${String(week.week).padStart(2, "0")}`,
+    ...getIsoWeekRange(week.year, week.week)!,
+  };
+}
+
+/**
+ * Aggregate days into calendar weeks or months. Targets are the per-day targets of the
+ * daily view, so period totals add up to the range summary.
+ */
+export function groupDaysByPeriod(
+  days: readonly DayStats[],
+  unit: PeriodUnit,
+  fromDate: string,
+  toDate: string,
+): PeriodStats[] {
+  const periods = new Map<string, PeriodStats>();
+
+  for (const day of days) {
+    const { period, from, to } = getPeriod(day.date, unit);
+    let stats = periods.get(period);
+    if (!stats) {
+      stats = {
+        period,
+        from: from < fromDate ? fromDate : from,
+        to: to > toDate ? toDate : to,
+        target: 0,
+        grossBooked: 0,
+        netBooked: 0,
+        clocked: 0,
+        efficiency: 0,
+        workdays: 0,
+        holidays: 0,
+        missingDays: 0,
+      };
+      periods.set(period, stats);
+    }
+
+    stats.target += day.target;
+    stats.grossBooked += day.grossBooked;
+    stats.netBooked += day.netBooked;
+    stats.clocked += day.clocked;
+    if (day.isWorkday) stats.workdays++;
+    if (day.holiday !== undefined) stats.holidays++;
+    if (day.missing) stats.missingDays++;
+  }
+
+  const result = [...periods.values()].sort((a, b) => a.from.localeCompare(b.from));
+  for (const stats of result) {
+    stats.efficiency = stats.clocked > 0 ? Math.round((stats.netBooked / stats.clocked) * 100) : 0;
+  }
+  return result;
+}
@@ -0,0 +1,21 @@
+import * as readline from "readline";
+
+/**
+ * Ask a yes/no question on the terminal. Anything but "y" or "yes" counts as no, as does
+ * closing the input (Ctrl+D) before answering.
+ */
+export function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    // Resolving again after an answer has no effect
+    rl.on("close", () => resolve(false));
+    rl.question(`${question} [y/N]: `, (answer) => {
+      resolve(["y", "yes"].includes(answer.trim().toLowerCase()));
+      rl.close();
+    });
+  });
+}
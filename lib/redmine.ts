@@ -45,18 +45,27 @@ export async function fetchCurrentUser(config: Config): Promise<User> {
   return data.user;
 }
 
+/**
+ * Fetch the user's time entries in a range. With `updatedSince` (an ISO timestamp), only
+ * entries created or changed since then are returned.
+ */
 export async function fetchTimeEntries(
   config: Config,
   userId: number,
   from: string,
   to: string,
+  updatedSince?: string,
 ): Promise<TimeEntry[]> {
   const allEntries: TimeEntry[] = [];
   const limit = 100;
   let offset = 0;
+  // Redmine expects timestamps without milliseconds
+  const updatedFilter = updatedSince
+    ? `&updated_on=${encodeURIComponent(`>=${updatedSince.replace(/\.\d{3}Z$/, "Z")}`)}`
+    : "";
 
   while (true) {
-    const url = `${config.redmineUrl}/time_entries.json?user_id=${encodeURIComponent(String(userId))}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&limit=${limit}&offset=${offset}`;
+    const url = `${config.redmineUrl}/time_entries.json?user_id=${encodeURIComponent(String(userId))}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}${updatedFilter}&limit=${limit}&offset=${offset}`;
 
     const response = await fetch(url, {
       headers: {
@@ -81,3 +90,215 @@ export async function fetchTimeEntries(
 
   return allEntries;
 }
+
+export async function fetchTimeEntryCount(
+  config: Config,
+  userId: number,
+  from: string,
+  to: string,
+): Promise<number> {
+  const url = `${config.redmineUrl}/time_entries.json?user_id=${encodeURIComponent(String(userId))}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&limit=1`;
+
+  const response = await fetch(url, {
+    headers: {
+      "X-Redmine-API-Key": config.redmineApiKey,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Redmine API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as TimeEntriesResponse;
+  return data.total_count;
+}
+
+export interface Issue {
+  id: number;
+  subject: string;
+  project: { id: number; name: string };
+  tracker?: { id: number; name: string };
+  // `is_closed` is only included by Redmine 5.1 and later; loadIssues fills it in otherwise
+  status?: { id: number; name: string; is_closed?: boolean };
+  parent?: { id: number };
+}
+
+export interface IssueStatus {
+  id: number;
+  name: string;
+  is_closed?: boolean;
+}
+
+export interface TimeEntryActivity {
+  id: number;
+  name: string;
+  is_default?: boolean;
+  active?: boolean;
+}
+
+export interface NewTimeEntry {
+  issueId: number;
+  hours: number;
+  comments: string;
+  spentOn: string;
+  activityId?: number;
+}
+
+async function redmineRequest(
+  config: Config,
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const response = await fetch(`${config.redmineUrl}${path}`, {
+    ...init,
+    headers: {
+      "X-Redmine-API-Key": config.redmineApiKey,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    // Validation failures (422) carry the reasons in the body
+    const body = (await response.json().catch(() => null)) as { errors?: string[] } | null;
+    const details = body?.errors?.length ? `: ${body.errors.join(", ")}` : "";
+    throw new Error(`Redmine API error: ${response.status} ${response.statusText}${details}`);
+  }
+
+  return response;
+}
+
+export async function fetchIssue(config: Config, issueId: number): Promise<Issue> {
+  try {
+    const response = await redmineRequest(config, `/issues/${issueId}.json`);
+    const data = (await response.json()) as { issue: Issue };
+    return data.issue;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(" 404 ")) {
+      throw new Error(`Issue #${issueId} not found`);
+    }
+    throw error;
+  }
+}
+
+// Issue IDs per /issues.json request, keeping the URL short
+const ISSUE_BATCH_SIZE = 100;
+
+/**
+ * Fetch several issues in batches. Issues that don't exist or aren't visible to the
+ * user are missing from the result.
+ */
+export async function fetchIssues(config: Config, issueIds: readonly number[]): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  for (let i = 0; i < issueIds.length; i += ISSUE_BATCH_SIZE) {
+    const batch = issueIds.slice(i, i + ISSUE_BATCH_SIZE);
+    // status_id=* includes closed issues, which are filtered out by default
+    const response = await redmineRequest(
+      config,
+      `/issues.json?issue_id=${batch.join(",")}&status_id=*&limit=${ISSUE_BATCH_SIZE}`,
+    );
+    const data = (await response.json()) as { issues: Issue[] };
+    issues.push(...data.issues);
+  }
+  return issues;
+}
+
+export async function fetchIssueStatuses(config: Config): Promise<IssueStatus[]> {
+  const response = await redmineRequest(config, "/issue_statuses.json");
+  const data = (await response.json()) as { issue_statuses: IssueStatus[] };
+  return data.issue_statuses;
+}
+
+export async function fetchTimeEntryActivities(config: Config): Promise<TimeEntryActivity[]> {
+  const response = await redmineRequest(config, "/enumerations/time_entry_activities.json");
+  const data = (await response.json()) as { time_entry_activities: TimeEntryActivity[] };
+  return data.time_entry_activities.filter((activity) => activity.active !== false);
+}
+
+export async function createTimeEntry(config: Config, entry: NewTimeEntry): Promise<TimeEntry> {
+  const response = await redmineRequest(config, "/time_entries.json", {
+    method: "POST",
+    body: JSON.stringify({
+      time_entry: {
+        issue_id: entry.issueId,
+        hours: entry.hours,
+        comments: entry.comments,
+        spent_on: entry.spentOn,
+        activity_id: entry.activityId,
+      },
+    }),
+  });
+  const data = (await response.json()) as { time_entry: TimeEntry };
+  return data.time_entry;
+}
+
+/**
+ * Resolve an activity by name (case-insensitive, exact match or unique prefix). Without a
+ * name, Redmine's default activity is used if one is configured.
+ */
+export function resolveActivity(
+  activities: readonly TimeEntryActivity[],
+  name?: string,
+): TimeEntryActivity | undefined {
+  if (!name) {
+    return activities.find((activity) => activity.is_default);
+  }
+
+  const needle = name.trim().toLowerCase();
+  const exact = activities.find((activity) => activity.name.toLowerCase() === needle);
+  if (exact) return exact;
+
+  const matches = activities.filter((activity) => activity.name.toLowerCase().startsWith(needle));
+  if (matches.length === 1) return matches[0];
+
+  const available = activities.map((activity) => activity.name).join(", ");
+  throw new Error(
+    matches.length > 1
+      ? `Activity "${name}" is ambiguous. Matches: ${matches.map((activity) => activity.name).join(", ")}`
+      : `Unknown activity "${name}". Available: ${available}`,
+  );
+}
+
+export interface TimeEntryChanges {
+  issueId?: number;
+  hours?: number;
+  comments?: string;
+  spentOn?: string;
+  activityId?: number;
+}
+
+export async function fetchTimeEntry(config: Config, entryId: number): Promise<TimeEntry> {
+  try {
+    const response = await redmineRequest(config, `/time_entries/${entryId}.json`);
+    const data = (await response.json()) as { time_entry: TimeEntry };
+    return data.time_entry;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(" 404 ")) {
+      throw new Error(`Time entry ${entryId} not found`);
+    }
+    throw error;
+  }
+}
+
+export async function updateTimeEntry(
+  config: Config,
+  entryId: number,
+  changes: TimeEntryChanges,
+): Promise<void> {
+  await redmineRequest(config, `/time_entries/${entryId}.json`, {
+    method: "PUT",
+    body: JSON.stringify({
+      time_entry: {
+        issue_id: changes.issueId,
+        hours: changes.hours,
+        comments: changes.comments,
+        spent_on: changes.spentOn,
+        activity_id: changes.activityId,
+      },
+    }),
+  });
+}
+
+export async function deleteTimeEntry(config: Config, entryId: number): Promise<void> {
+  await redmineRequest(config, `/time_entries/${entryId}.json`, { method: "DELETE" });
+}
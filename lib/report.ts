@@ -0,0 +1,124 @@
+import type { TimeEntry } from "./redmine.js";
+import { isIgnoredEntry } from "./utils.js";
+import type { DayStats } from "./output/types.js";
+
+export const REPORT_DIMENSIONS = ["project", "issue", "activity"] as const;
+
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+
+export interface ReportGroup {
+  dimension: ReportDimension;
+  // Undefined for entries without an issue
+  id?: number;
+  name: string;
+}
+
+export interface ReportRow {
+  groups: ReportGroup[];
+  hours: number;
+  // Percentage of the net booked hours in the range
+  share: number;
+  // Number of distinct days with bookings in this group
+  days: number;
+}
+
+export interface Report {
+  dimensions: ReportDimension[];
+  rows: ReportRow[];
+  totalHours: number;
+  totalDays: number;
+  // Hours booked on ignored tickets, which are not part of the report
+  ignoredHours: number;
+}
+
+/**
+ * Parse a comma-separated list of report dimensions, e.g. `project,issue`.
+ * Returns null if any dimension is unknown.
+ */
+export function parseReportDimensions(value: string): ReportDimension[] | null {
+  const dimensions: ReportDimension[] = [];
+  for (const part of value.split(",")) {
+    const name = part.trim().toLowerCase();
+    if (!name) continue;
+    if (!REPORT_DIMENSIONS.includes(name as ReportDimension)) return null;
+    if (!dimensions.includes(name as ReportDimension)) {
+      dimensions.push(name as ReportDimension);
+    }
+  }
+  return dimensions.length > 0 ? dimensions : null;
+}
+
+function getGroup(entry: TimeEntry, dimension: ReportDimension): ReportGroup {
+  switch (dimension) {
+    case "project":
+      return { dimension, id: entry.project.id, name: entry.project.name };
+    case "issue":
+      return entry.issue
+        ? { dimension, id: entry.issue.id, name: `#${entry.issue.id}` }
+        : { dimension, name: "(no issue)" };
+    case "activity":
+      return { dimension, id: entry.activity.id, name: entry.activity.name };
+  }
+}
+
+function calculateShare(hours: number, total: number): number {
+  return total > 0 ? Math.round((hours / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Group the net booked entries of a range by the given dimensions. Rows are sorted by
+ * hours, largest first.
+ */
+export function buildReport(
+  days: readonly DayStats[],
+  dimensions: readonly ReportDimension[],
+  ignoredTicketIds: ReadonlySet<number>,
+): Report {
+  const groups = new Map<string, { groups: ReportGroup[]; hours: number; dates: Set<string> }>();
+  const allDates = new Set<string>();
+  let totalHours = 0;
+  let ignoredHours = 0;
+
+  for (const day of days) {
+    for (const entry of day.entries) {
+      if (isIgnoredEntry(entry, ignoredTicketIds)) {
+        ignoredHours += entry.hours;
+        continue;
+      }
+
+      const entryGroups = dimensions.map((dimension) => getGroup(entry, dimension));
+      const key = entryGroups.map((group) => `${group.dimension}:${group.id ?? ""}`).join("|");
+      const row = groups.get(key) ?? { groups: entryGroups, hours: 0, dates: new Set() };
+      row.hours += entry.hours;
+      row.dates.add(entry.spent_on);
+      groups.set(key, row);
+
+      totalHours += entry.hours;
+      allDates.add(entry.spent_on);
+    }
+  }
+
+  const rows = Array.from(groups.values())
+    .map((row) => ({
+      groups: row.groups,
+      hours: row.hours,
+      share: calculateShare(row.hours, totalHours),
+      days: row.dates.size,
+    }))
+    .sort(
+      (a, b) =>
+        b.hours - a.hours ||
+        a.groups
+          .map((group) => group.name)
+          .join()
+          .localeCompare(b.groups.map((group) => group.name).join()),
+    );
+
+  return {
+    dimensions: [...dimensions],
+    rows,
+    totalHours,
+    totalDays: allDates.size,
+    ignoredHours,
+  };
+}
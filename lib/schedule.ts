@@ -0,0 +1,86 @@
+import type { Config, Weekday, WorkSchedule } from "./config.js";
+import { getHolidaysInRange } from "./holidays.js";
+import { parseDate } from "./utils.js";
+
+export const WEEKDAYS: readonly Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const DEFAULT_TARGET_HOURS = 8;
+
+export interface WorkCalendar {
+  holidays: ReadonlyMap<string, string>;
+  getTargetHours(date: string): number;
+  isExpectedWorkday(date: string): boolean;
+}
+
+/**
+ * Find the schedule in effect on a date: the one with the latest `effectiveFrom` that is
+ * not after the date. Schedules are expected to be sorted by `effectiveFrom`.
+ */
+export function findSchedule(
+  date: string,
+  schedules: readonly WorkSchedule[],
+): WorkSchedule | undefined {
+  let active: WorkSchedule | undefined;
+  for (const schedule of schedules) {
+    if (schedule.effectiveFrom <= date) {
+      active = schedule;
+    }
+  }
+  return active;
+}
+
+/**
+ * Target hours for a single date. Dates covered by a configured schedule use that
+ * schedule's weekday target (0 for weekdays it doesn't list); all other dates fall back
+ * to the flat `targetHoursPerDay`.
+ */
+export function getTargetHoursForDate(date: string, config: Config): number {
+  if (isNonWorkingDay(date, config)) {
+    return 0;
+  }
+
+  const schedule = findSchedule(date, config.workSchedule ?? []);
+  if (!schedule) {
+    return config.targetHoursPerDay ?? DEFAULT_TARGET_HOURS;
+  }
+
+  const parsed = parseDate(date);
+  if (!parsed) return 0;
+  return schedule.hours[WEEKDAYS[parsed.getDay()]!] ?? 0;
+}
+
+// Configured non-working days are either dates (`YYYY-MM-DD`) or weekdays (`fri`)
+export function isNonWorkingDay(date: string, config: Config): boolean {
+  const nonWorkingDays = config.nonWorkingDays ?? [];
+  if (nonWorkingDays.length === 0) return false;
+  const parsed = parseDate(date);
+  const weekday = parsed ? WEEKDAYS[parsed.getDay()]! : undefined;
+  return nonWorkingDays.some((day) => day === date || day === weekday);
+}
+
+/**
+ * Whether a day is expected to have bookings and clocked time. Without a schedule
+ * covering the date, weekends are never expected workdays.
+ */
+export function isExpectedWorkday(date: string, config: Config): boolean {
+  if (getTargetHoursForDate(date, config) <= 0) return false;
+  if (findSchedule(date, config.workSchedule ?? [])) return true;
+  const weekday = parseDate(date)?.getDay();
+  return weekday !== undefined && weekday !== 0 && weekday !== 6;
+}
+
+export function createWorkCalendar(config: Config, from: string, to: string): WorkCalendar {
+  const holidays = getHolidaysInRange(from, to, config.holidayState, config.customHolidays);
+  return {
+    holidays,
+    getTargetHours: (date) => getTargetHoursForDate(date, config),
+    isExpectedWorkday: (date) => !holidays.has(date) && isExpectedWorkday(date, config),
+  };
+}
+
+export function formatSchedule(schedule: WorkSchedule): string {
+  const parts = WEEKDAYS.filter((day) => (schedule.hours[day] ?? 0) > 0).map(
+    (day) => `${day} ${schedule.hours[day]}h`,
+  );
+  return `from ${schedule.effectiveFrom}: ${parts.length > 0 ? parts.join(", ") : "(no workdays)"}`;
+}
@@ -0,0 +1,54 @@
+import type { ClockSession } from "./mssql.js";
+
+export interface ClockBreak {
+  // ISO timestamps of the clock-out and the following clock-in
+  start: string;
+  end: string;
+  hours: number;
+}
+
+export interface SessionSummary {
+  intervals: ClockSession[];
+  breaks: ClockBreak[];
+  firstIn?: string;
+  // Undefined while the clock is still running
+  lastOut?: string;
+  clockedHours: number;
+  breakHours: number;
+}
+
+function hoursBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60);
+}
+
+export function getSessionHours(session: ClockSession): number {
+  return hoursBetween(session.start, session.end);
+}
+
+/**
+ * Summarize a day's clock sessions: first clock-in, last clock-out and the breaks
+ * (gaps) between consecutive sessions.
+ */
+export function summarizeSessions(sessions: readonly ClockSession[]): SessionSummary {
+  const intervals = [...sessions].sort((a, b) => a.start.localeCompare(b.start));
+  const breaks: ClockBreak[] = [];
+
+  for (let i = 1; i < intervals.length; i++) {
+    const previous = intervals[i - 1]!;
+    const current = intervals[i]!;
+    const hours = hoursBetween(previous.end, current.start);
+    if (hours > 0) {
+      breaks.push({ start: previous.end, end: current.start, hours });
+    }
+  }
+
+  const last = intervals[intervals.length - 1];
+  return {
+    intervals,
+    breaks,
+    firstIn: intervals[0]?.start,
+    lastOut: last && !last.running ? last.end : undefined,
+    clockedHours: intervals.reduce((sum, session) => sum + getSessionHours(session), 0),
+    breakHours: breaks.reduce((sum, gap) => sum + gap.hours, 0),
+  };
+}
@@ -0,0 +1,210 @@
+import type { Config } from "./config.js";
+import type { ClockSession } from "./mssql.js";
+import type { TimeEntry } from "./redmine.js";
+import {
+  loadClockedHours,
+  loadIssues,
+  loadTimeEntries,
+  type CacheOptions,
+  type CurrentUser,
+  type SourceStatus,
+} from "./cache.js";
+import { createWorkCalendar, type WorkCalendar } from "./schedule.js";
+import {
+  calculateGrossBookedHours,
+  calculateNetBookedHours,
+  getDatesInRange,
+  getDayName,
+  groupByDate,
+} from "./utils.js";
+import type { DayStats, StatsData, SummaryData } from "./output/types.js";
+
+export function prepareStatsData(
+  entries: TimeEntry[],
+  clockedHours: Map<string, number>,
+  sessionsByDate: ReadonlyMap<string, ClockSession[]>,
+  currentDate: string,
+  isCurrentDayClockRunning: boolean,
+  targetHoursPerDay: number,
+  calendar: WorkCalendar,
+  ignoredTicketIds: ReadonlySet<number>,
+  fromDate: string,
+  toDate: string,
+  unknownDates: ReadonlySet<string> = new Set(),
+): StatsData {
+  const isIgnored = (entry: TimeEntry): boolean => {
+    const issueId = entry.issue?.id;
+    return issueId !== undefined && ignoredTicketIds.has(issueId);
+  };
+
+  const grouped = groupByDate(entries);
+
+  // Combine all dates from both sources, plus past workdays and holidays without any data
+  const allDates = new Set([...grouped.keys(), ...clockedHours.keys()]);
+  for (const date of getDatesInRange(fromDate, toDate)) {
+    if (date >= currentDate) break;
+    if (calendar.isExpectedWorkday(date) || calendar.holidays.has(date)) {
+      allDates.add(date);
+    }
+  }
+  const sortedDates = Array.from(allDates).sort();
+
+  let hasPartialCurrentDayTarget = false;
+  let partialCurrentDayTarget = 0;
+
+  const dayStats: DayStats[] = sortedDates.map((date) => {
+    const dayEntries = grouped.get(date) || [];
+    const grossBooked = calculateGrossBookedHours(dayEntries);
+    const netBooked = calculateNetBookedHours(dayEntries, ignoredTicketIds);
+    const clocked = clockedHours.get(date) || 0;
+    const excludedFromNet =
+      dayEntries.length > 0 && dayEntries.every((entry) => isIgnored(entry)) && clocked === 0;
+    const holiday = calendar.holidays.get(date);
+    // Days without cached data can't be told apart from days without bookings
+    const unknown = unknownDates.has(date);
+    const missing =
+      !unknown &&
+      dayEntries.length === 0 &&
+      !clockedHours.has(date) &&
+      calendar.isExpectedWorkday(date);
+
+    // Holidays and unknown days never count against the target, even if hours were booked
+    // or clocked
+    const scheduledTarget =
+      excludedFromNet || holiday !== undefined || unknown ? 0 : calendar.getTargetHours(date);
+    let target = scheduledTarget;
+    if (isCurrentDayClockRunning && date === currentDate) {
+      target = Math.min(clocked, scheduledTarget);
+      hasPartialCurrentDayTarget = target !== scheduledTarget;
+      partialCurrentDayTarget = target;
+    }
+
+    return {
+      date,
+      dayName: getDayName(date),
+      grossBooked,
+      netBooked,
+      clocked,
+      excludedFromNet,
+      holiday,
+      missing,
+      isWorkday: scheduledTarget > 0,
+      target,
+      unknown: unknown || undefined,
+      entries: dayEntries,
+      sessions: sessionsByDate.get(date) ?? [],
+    };
+  });
+
+  // Calculate totals
+  let totalBooked = 0;
+  let totalClocked = 0;
+  for (const stats of dayStats) {
+    totalBooked += stats.netBooked;
+    totalClocked += stats.clocked;
+  }
+
+  const workdays = dayStats.filter((stats) => stats.isWorkday).length;
+  const holidayCount = dayStats.filter((stats) => stats.holiday !== undefined).length;
+  const missingDays = dayStats.filter((stats) => stats.missing).length;
+  const currentDayStats = dayStats.find((stats) => stats.date === currentDate);
+  const hasCurrentDateInRange = currentDayStats !== undefined;
+
+  let targetTotal = 0;
+  for (const stats of dayStats) {
+    targetTotal += stats.target;
+  }
+
+  const bookedToday = currentDayStats?.netBooked ?? 0;
+  const bookedPastDays = totalBooked - bookedToday;
+  const clockedToday = hasCurrentDateInRange ? currentDayStats?.clocked || 0 : 0;
+  const clockedPastDays = totalClocked - clockedToday;
+
+  const bookedDiscrepancy = totalBooked - targetTotal;
+  const clockedDiscrepancy = totalClocked - targetTotal;
+  const bookedPct = targetTotal > 0 ? Math.round((totalBooked / targetTotal) * 100) : 0;
+  const clockedPct = targetTotal > 0 ? Math.round((totalClocked / targetTotal) * 100) : 0;
+  const efficiency = totalClocked > 0 ? Math.round((totalBooked / totalClocked) * 100) : 0;
+
+  const summary: SummaryData = {
+    workdays,
+    holidays: holidayCount,
+    missingDays,
+    targetHoursPerDay,
+    targetTotal,
+    hasPartialCurrentDayTarget,
+    partialCurrentDayTarget,
+    booked: {
+      total: totalBooked,
+      past: bookedPastDays,
+      today: bookedToday,
+    },
+    clocked: {
+      total: totalClocked,
+      past: clockedPastDays,
+      today: clockedToday,
+    },
+    discrepancies: {
+      booked: bookedDiscrepancy,
+      clocked: clockedDiscrepancy,
+    },
+    percentages: {
+      booked: bookedPct,
+      clocked: clockedPct,
+      efficiency,
+    },
+    currentDate,
+    isClockRunningToday: isCurrentDayClockRunning,
+  };
+
+  return { days: dayStats, summary, issues: new Map() };
+}
+
+/**
+ * Load entries and clocked hours for a range and compute the stats for it. If the user
+ * lookup already fell back to the cache, Redmine is not contacted a second time.
+ * With `issues`, details of the booked issues are loaded as well.
+ */
+export async function loadStatsData(
+  config: Config,
+  currentUser: CurrentUser,
+  from: string,
+  to: string,
+  cacheOptions: CacheOptions,
+  options: { issues?: boolean } = {},
+): Promise<{ statsData: StatsData; sources: SourceStatus[] }> {
+  const redmineOptions: CacheOptions = {
+    ...cacheOptions,
+    offline: cacheOptions.offline || !currentUser.live,
+    offlineReason: currentUser.reason,
+  };
+  const [{ entries, source: redmineSource }, { clocked, source: clockSource }] = await Promise.all([
+    loadTimeEntries(config, currentUser.user.id, from, to, redmineOptions),
+    loadClockedHours(config, from, to, cacheOptions),
+  ]);
+
+  const statsData = prepareStatsData(
+    entries,
+    clocked.hoursByDate,
+    clocked.sessionsByDate,
+    clocked.today,
+    clocked.isClockRunningToday,
+    config.targetHoursPerDay ?? 8,
+    createWorkCalendar(config, from, to),
+    new Set(config.ignoredRedmineTicketIds ?? []),
+    from,
+    to,
+    new Set([...(redmineSource.uncachedDates ?? []), ...(clockSource.uncachedDates ?? [])]),
+  );
+
+  if (options.issues) {
+    const issueIds = entries.flatMap((entry) => (entry.issue ? [entry.issue.id] : []));
+    // Entries served from the cache mean Redmine is unreachable; don't try it again
+    statsData.issues = await loadIssues(config, issueIds, {
+      ...redmineOptions,
+      offline: redmineOptions.offline || !redmineSource.live,
+    });
+  }
+
+  return { statsData, sources: [redmineSource, clockSource] };
+}
@@ -0,0 +1,71 @@
+import type { CacheOptions, CurrentUser, SourceStatus } from "./cache.js";
+import type { Config, TeamMember } from "./config.js";
+import { loadStatsData } from "./stats.js";
+import type { StatsData } from "./output/types.js";
+
+export interface TeamMemberStats {
+  member: TeamMember;
+  // Undefined if loading the member's data failed
+  statsData?: StatsData;
+  sources: SourceStatus[];
+  error?: string;
+}
+
+/**
+ * Config for loading a team member's data: their timelogger user and daily target. The
+ * own work schedule and overtime balance don't apply to other members.
+ */
+export function getMemberConfig(config: Config, member: TeamMember): Config {
+  return {
+    ...config,
+    slackUserId: member.timeloggerUserId,
+    targetHoursPerDay: member.targetHoursPerDay ?? config.targetHoursPerDay,
+    workSchedule: [],
+    balance: undefined,
+  };
+}
+
+export function getMemberUser(member: TeamMember): CurrentUser {
+  return {
+    user: { id: member.redmineUserId, login: "", firstname: member.name, lastname: "" },
+    live: true,
+  };
+}
+
+// Find a member by Redmine user ID, name or unambiguous start of the name (case-insensitive)
+export function findTeamMember(team: readonly TeamMember[], query: string): TeamMember | undefined {
+  const name = query.trim().toLowerCase();
+  const exact = team.find(
+    (member) => member.name.toLowerCase() === name || String(member.redmineUserId) === name,
+  );
+  if (exact) return exact;
+  const matches = team.filter((member) => member.name.toLowerCase().startsWith(name));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Load the stats of all team members in parallel. A member whose data can't be loaded is
+ * reported with the error instead of failing the whole report.
+ */
+export async function loadTeamStats(
+  config: Config,
+  team: readonly TeamMember[],
+  from: string,
+  to: string,
+  cacheOptions: CacheOptions,
+): Promise<TeamMemberStats[]> {
+  const results = await Promise.allSettled(
+    team.map((member) =>
+      loadStatsData(getMemberConfig(config, member), getMemberUser(member), from, to, cacheOptions),
+    ),
+  );
+
+  return results.map((result, index) => {
+    const member = team[index]!;
+    if (result.status === "fulfilled") {
+      return { member, statsData: result.value.statsData, sources: result.value.sources };
+    }
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    return { member, sources: [], error };
+  });
+}
@@ -1,4 +1,5 @@
 import type { TimeEntry } from "./redmine.js";
+import type { DayStats } from "./output/types.js";
 
 export function formatDate(date: Date): string {
   const year = date.getFullYear();
@@ -7,6 +8,16 @@ export function formatDate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+export function formatTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
+export function formatDateTime(date: Date): string {
+  return `${formatDate(date)} ${formatTime(date)}`;
+}
+
 export function getDateRange(days: number = 7): { from: string; to: string } {
   const today = new Date();
   const fromDate = new Date(today);
@@ -27,6 +38,187 @@ export function getYearRange(): { from: string; to: string } {
   return { from: formatDate(fromDate), to: formatDate(today) };
 }
 
+export function parseDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+export function getDatesInRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const start = parseDate(from);
+  const end = parseDate(to);
+  if (!start || !end) return dates;
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(formatDate(date));
+  }
+  return dates;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(date.getDate() + days);
+  return result;
+}
+
+// Monday of the week containing the given date
+function startOfWeek(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7;
+  return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -offset);
+}
+
+function toRange(fromDate: Date, toDate: Date): { from: string; to: string } {
+  return { from: formatDate(fromDate), to: formatDate(toDate) };
+}
+
+export function getWeekRange(weeksAgo: number = 0): { from: string; to: string } {
+  const monday = addDays(startOfWeek(new Date()), -7 * weeksAgo);
+  return toRange(monday, addDays(monday, 6));
+}
+
+export function getMonthRange(year: number, month: number): { from: string; to: string } {
+  return toRange(new Date(year, month - 1, 1), new Date(year, month, 0));
+}
+
+export function getQuarterRange(year: number, quarter: number): { from: string; to: string } {
+  const firstMonth = (quarter - 1) * 3;
+  return toRange(new Date(year, firstMonth, 1), new Date(year, firstMonth + 3, 0));
+}
+
+export function getIsoWeekRange(year: number, week: number): { from: string; to: string } | null {
+  if (week < 1 || week > 53) return null;
+  // ISO week 1 is the week containing January 4th
+  const monday = addDays(startOfWeek(new Date(year, 0, 4)), 7 * (week - 1));
+  // Week 53 only exists if its Thursday still falls into the same year
+  if (addDays(monday, 3).getFullYear() !== year) return null;
+  return toRange(monday, addDays(monday, 6));
+}
+
+// ISO week-numbering year and week of a date (weeks start on Monday)
+export function getIsoWeek(date: Date): { year: number; week: number } {
+  // The Thursday of the week decides which year the week belongs to
+  const thursday = addDays(startOfWeek(date), 3);
+  const year = thursday.getFullYear();
+  const firstThursday = addDays(startOfWeek(new Date(year, 0, 4)), 3);
+  const week = Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 86400000)) + 1;
+  return { year, week };
+}
+
+export function getThisWeekRange(): { from: string; to: string } {
+  return getWeekRange(0);
+}
+
+export function getLastWeekRange(): { from: string; to: string } {
+  return getWeekRange(1);
+}
+
+export function getThisMonthRange(): { from: string; to: string } {
+  const today = new Date();
+  return getMonthRange(today.getFullYear(), today.getMonth() + 1);
+}
+
+export function getLastMonthRange(): { from: string; to: string } {
+  const today = new Date();
+  const lastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  return getMonthRange(lastMonth.getFullYear(), lastMonth.getMonth() + 1);
+}
+
+export function getThisQuarterRange(): { from: string; to: string } {
+  const today = new Date();
+  return getQuarterRange(today.getFullYear(), Math.floor(today.getMonth() / 3) + 1);
+}
+
+export function getLastQuarterRange(): { from: string; to: string } {
+  const today = new Date();
+  const lastQuarter = new Date(today.getFullYear(), today.getMonth() - 3, 1);
+  return getQuarterRange(lastQuarter.getFullYear(), Math.floor(lastQuarter.getMonth() / 3) + 1);
+}
+
+const NAMED_RANGES: Record<string, () => { from: string; to: string }> = {
+  today: () => toRange(new Date(), new Date()),
+  yesterday: () => toRange(addDays(new Date(), -1), addDays(new Date(), -1)),
+  "this-week": getThisWeekRange,
+  "last-week": getLastWeekRange,
+  "this-month": getThisMonthRange,
+  "last-month": getLastMonthRange,
+  "this-quarter": getThisQuarterRange,
+  "last-quarter": getLastQuarterRange,
+};
+
+/**
+ * Resolve a range spec to a date range. Accepts a day (`2026-10-17`), an ISO week
+ * (`2026-W41`), a month (`2026-09`), a quarter (`2026-Q3`), a year (`2026`) or a
+ * named range such as `last-week`. Returns null if the spec is not recognized.
+ */
+export function parseRangeSpec(spec: string): { from: string; to: string } | null {
+  const value = spec.trim();
+
+  const named = NAMED_RANGES[value.toLowerCase()];
+  if (named) return named();
+
+  const day = parseDate(value);
+  if (day) return toRange(day, day);
+
+  const week = /^(\d{4})-W(\d{1,2})$/i.exec(value);
+  if (week) return getIsoWeekRange(Number(week[1]), Number(week[2]));
+
+  const month = /^(\d{4})-(\d{2})$/.exec(value);
+  if (month) {
+    const monthNum = Number(month[2]);
+    return monthNum >= 1 && monthNum <= 12 ? getMonthRange(Number(month[1]), monthNum) : null;
+  }
+
+  const quarter = /^(\d{4})-Q([1-4])$/i.exec(value);
+  if (quarter) return getQuarterRange(Number(quarter[1]), Number(quarter[2]));
+
+  if (/^\d{4}$/.test(value)) {
+    const year = Number(value);
+    return toRange(new Date(year, 0, 1), new Date(year, 11, 31));
+  }
+
+  return null;
+}
+
+/**
+ * Resolve `--from`/`--to` specs to a date range. `from` starts at the beginning of
+ * its spec and `to` ends at the end of its spec; a missing `to` means today.
+ */
+export function resolveFromToRange(
+  fromSpec?: string,
+  toSpec?: string,
+): { from: string; to: string } {
+  if (!fromSpec) {
+    throw new Error("--to requires --from");
+  }
+
+  const fromRange = parseRangeSpec(fromSpec);
+  if (!fromRange) {
+    throw new Error(`Invalid date or range: ${fromSpec}`);
+  }
+
+  let to = formatDate(new Date());
+  if (toSpec) {
+    const toSpecRange = parseRangeSpec(toSpec);
+    if (!toSpecRange) {
+      throw new Error(`Invalid date or range: ${toSpec}`);
+    }
+    to = toSpecRange.to;
+  }
+
+  if (fromRange.from > to) {
+    throw new Error(`Start date ${fromRange.from} is after end date ${to}`);
+  }
+
+  return { from: fromRange.from, to };
+}
+
 export function formatHours(hours: number): string {
   if (hours % 1 === 0) {
     return `${hours}h`;
@@ -34,6 +226,51 @@ export function formatHours(hours: number): string {
   return `${hours.toFixed(2)}h`;
 }
 
+// Hours with a sign, e.g. +1.50h or -2h
+export function formatSignedHours(hours: number): string {
+  return `${hours > 0 ? "+" : ""}${formatHours(hours)}`;
+}
+
+// Short note on why a day stands out in tabular outputs, e.g. "missing" or "holiday: ..."
+export function getDayNote(day: DayStats): string {
+  if (day.missing) return "missing";
+  if (day.unknown) return "not cached";
+  if (day.holiday) return `holiday: ${day.holiday}`;
+  if (day.excludedFromNet) return "excluded";
+  return "";
+}
+
+/**
+ * Parse an hours value as typed by a user: decimal (`1.5`, `1,5`), `h:mm` (`1:30`) or
+ * with a unit suffix (`2h`, `90m`). Returns null for invalid or non-positive values.
+ */
+export function parseHours(value: string): number | null {
+  const input = value.trim().toLowerCase();
+  let hours: number;
+
+  const clock = /^(\d+):([0-5]\d)$/.exec(input);
+  const minutes = /^(\d+)m(in)?$/.exec(input);
+  if (clock) {
+    hours = Number(clock[1]) + Number(clock[2]) / 60;
+  } else if (minutes) {
+    hours = Number(minutes[1]) / 60;
+  } else if (/^\d+([.,]\d+)?h?$/.test(input)) {
+    hours = Number(input.replace(",", ".").replace(/h$/, ""));
+  } else {
+    return null;
+  }
+
+  return hours > 0 ? Math.round(hours * 100) / 100 : null;
+}
+
+/**
+ * Resolve a single-day spec (`2026-10-17`, `today`, `yesterday`) to `YYYY-MM-DD`.
+ */
+export function parseDaySpec(spec: string): string | null {
+  const range = parseRangeSpec(spec);
+  return range && range.from === range.to ? range.from : null;
+}
+
 export function truncateComment(comment: string, maxLength: number = 50): string {
   if (comment.length <= maxLength) return comment;
   return comment.substring(0, maxLength - 3) + "...";
@@ -47,7 +284,8 @@ export function truncateProject(name: string, maxLength: number = 5): string {
 
 export function getDayName(dateStr: string): string {
   const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  return days[new Date(dateStr).getDay()]!;
+  // Parse as a local date; `new Date("YYYY-MM-DD")` is UTC midnight
+  return days[(parseDate(dateStr) ?? new Date(dateStr)).getDay()]!;
 }
 
 export function groupByDate(entries: TimeEntry[]): Map<string, TimeEntry[]> {
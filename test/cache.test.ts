@@ -0,0 +1,368 @@
+import { afterAll, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Config } from "../lib/config.js";
+import type { ClockEvent } from "../lib/mssql.js";
+import type { Issue, IssueStatus, TimeEntry } from "../lib/redmine.js";
+
+// Cache files go to a temporary directory
+const cacheHome = mkdtempSync(join(tmpdir(), "whstats-cache-"));
+const xdgCacheHome = process.env.XDG_CACHE_HOME;
+process.env.XDG_CACHE_HOME = cacheHome;
+
+// A fake timelogger database; `clockDown` makes it unreachable
+let clockEvents: ClockEvent[] = [];
+let clockDown = false;
+const clockQueries: Array<ReadonlyArray<{ from: string; to: string }>> = [];
+const mssql = await import("../lib/mssql.js");
+mock.module("../lib/mssql.js", () => ({
+  ...mssql,
+  fetchClockEventsForRanges: async (
+    _config: Config,
+    ranges: ReadonlyArray<{ from: string; to: string }>,
+  ) => {
+    clockQueries.push(ranges);
+    if (clockDown) {
+      throw Object.assign(new Error("Failed to connect"), { name: "ConnectionError" });
+    }
+    const events = clockEvents.filter((event) => {
+      const date = event.time.slice(0, 10);
+      return ranges.some(({ from, to }) => date >= from && date <= to);
+    });
+    return { events, status: { today: "2026-10-19", isClockRunningToday: false } };
+  },
+}));
+
+// Imported once the database module is mocked
+const { getCacheDir, loadClockedHours, loadIssues, loadTimeEntries, mergeSourceStatus } =
+  await import("../lib/cache.js");
+
+const config = {
+  redmineApiKey: "key",
+  redmineUrl: "https://redmine.example.com",
+  mssqlServer: "db.example.com",
+  mssqlDatabase: "timelogger",
+  mssqlUser: "user",
+  mssqlPassword: "secret",
+  slackUserId: "U123",
+} as Config;
+
+const online = { useCache: true, refresh: false, offline: false };
+const offline = { ...online, offline: true };
+
+// A week far enough in the past that its days are served from the cache
+const FROM = "2025-03-03";
+const TO = "2025-03-07";
+const LONG_AGO = "2025-03-08T18:00:00Z";
+
+// A fake Redmine server; `redmineDown` makes it unreachable
+let entries: TimeEntry[] = [];
+let issues: Issue[] = [];
+let statuses: IssueStatus[] = [];
+let redmineDown = false;
+let requests: URL[] = [];
+
+function makeEntry(id: number, spentOn: string, hours = 1): TimeEntry {
+  return {
+    id,
+    project: { id: 1, name: "Project" },
+    issue: { id: 100 },
+    user: { id: 7, name: "User" },
+    activity: { id: 9, name: "Development" },
+    hours,
+    comments: `Entry ${id}`,
+    spent_on: spentOn,
+    created_on: LONG_AGO,
+    updated_on: LONG_AGO,
+  };
+}
+
+function handleRequest(url: URL): Response {
+  const params = url.searchParams;
+  switch (url.pathname) {
+    case "/time_entries.json": {
+      const updatedSince = params.get("updated_on")?.replace(/^>=/, "");
+      const matches = entries.filter(
+        (entry) =>
+          entry.spent_on >= params.get("from")! &&
+          entry.spent_on <= params.get("to")! &&
+          (!updatedSince || Date.parse(entry.updated_on) >= Date.parse(updatedSince)),
+      );
+      const limit = Number(params.get("limit"));
+      const offset = Number(params.get("offset") ?? 0);
+      return Response.json({
+        time_entries: matches.slice(offset, offset + limit),
+        total_count: matches.length,
+        offset,
+        limit,
+      });
+    }
+    case "/issues.json": {
+      const ids = params.get("issue_id")!.split(",").map(Number);
+      return Response.json({ issues: issues.filter((issue) => ids.includes(issue.id)) });
+    }
+    case "/issue_statuses.json":
+      return Response.json({ issue_statuses: statuses });
+    default:
+      return new Response(null, { status: 404, statusText: "Not Found" });
+  }
+}
+
+spyOn(globalThis, "fetch").mockImplementation((async (input: string | URL | Request) => {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  requests.push(url);
+  if (redmineDown) throw new TypeError("fetch failed");
+  return handleRequest(url);
+}) as typeof fetch);
+
+// Requests fetching whole days, as opposed to the updated_on and count checks
+function getFullFetches(): string[] {
+  return requests
+    .filter((url) => url.pathname === "/time_entries.json")
+    .filter((url) => !url.searchParams.has("updated_on") && url.searchParams.get("limit") !== "1")
+    .map((url) => `${url.searchParams.get("from")}..${url.searchParams.get("to")}`);
+}
+
+async function loadEntryIds(options = online) {
+  const result = await loadTimeEntries(config, 7, FROM, TO, options);
+  return { ids: result.entries.map((entry) => entry.id), source: result.source };
+}
+
+beforeEach(() => {
+  rmSync(getCacheDir(), { recursive: true, force: true });
+  entries = [makeEntry(1, "2025-03-03"), makeEntry(2, "2025-03-04"), makeEntry(3, "2025-03-05")];
+  issues = [];
+  statuses = [];
+  redmineDown = false;
+  requests = [];
+  clockEvents = [];
+  clockDown = false;
+  clockQueries.length = 0;
+});
+
+afterAll(() => {
+  mock.restore();
+  if (xdgCacheHome === undefined) delete process.env.XDG_CACHE_HOME;
+  else process.env.XDG_CACHE_HOME = xdgCacheHome;
+  rmSync(cacheHome, { recursive: true, force: true });
+});
+
+test("uses the temporary cache directory", () => {
+  expect(getCacheDir()).toBe(join(cacheHome, "whstats"));
+});
+
+describe("loadTimeEntries", () => {
+  test("serves unchanged days from the cache", async () => {
+    expect((await loadEntryIds()).ids).toEqual([1, 2, 3]);
+    expect(getFullFetches()).toEqual([`${FROM}..${TO}`]);
+
+    requests = [];
+    expect(await loadEntryIds()).toEqual({
+      ids: [1, 2, 3],
+      source: { source: "redmine", live: true, uncachedDays: 0 },
+    });
+    expect(getFullFetches()).toEqual([]);
+  });
+
+  test("asks for entries updated since the first sync minus five minutes", async () => {
+    await loadEntryIds();
+    const [file] = new Bun.Glob("redmine-*-7.json").scanSync(getCacheDir());
+    const cache = JSON.parse(readFileSync(join(getCacheDir(), file!), "utf-8"));
+    const syncedAt = Date.parse(cache.days[FROM].syncedAt);
+
+    requests = [];
+    await loadEntryIds();
+    const since = requests[0]!.searchParams.get("updated_on")!;
+    expect(since).toMatch(/^>=\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+    expect(Date.parse(since.slice(2))).toBe(Math.floor((syncedAt - 5 * 60 * 1000) / 1000) * 1000);
+  });
+
+  test("re-fetches the day of an entry changed on the server", async () => {
+    await loadEntryIds();
+    entries[1] = { ...entries[1]!, hours: 2, updated_on: new Date().toISOString() };
+
+    requests = [];
+    const result = await loadTimeEntries(config, 7, FROM, TO, online);
+    expect(getFullFetches()).toEqual(["2025-03-04..2025-03-04"]);
+    expect(result.entries.find((entry) => entry.id === 2)?.hours).toBe(2);
+  });
+
+  test("re-fetches both days of an entry moved to another day", async () => {
+    await loadEntryIds();
+    entries[0] = { ...entries[0]!, spent_on: "2025-03-06", updated_on: new Date().toISOString() };
+
+    requests = [];
+    const result = await loadTimeEntries(config, 7, FROM, TO, online);
+    expect(getFullFetches()).toEqual(["2025-03-03..2025-03-03", "2025-03-06..2025-03-06"]);
+    expect(result.entries.map((entry) => [entry.id, entry.spent_on])).toEqual([
+      [2, "2025-03-04"],
+      [3, "2025-03-05"],
+      [1, "2025-03-06"],
+    ]);
+  });
+
+  test("re-fetches the range when an entry was deleted on the server", async () => {
+    await loadEntryIds();
+    entries = entries.filter((entry) => entry.id !== 2);
+
+    requests = [];
+    expect((await loadEntryIds()).ids).toEqual([1, 3]);
+    expect(getFullFetches()).toEqual([`${FROM}..${TO}`]);
+  });
+
+  test("reads only the cache in offline mode", async () => {
+    await loadTimeEntries(config, 7, FROM, "2025-03-04", online);
+
+    requests = [];
+    expect(await loadEntryIds(offline)).toEqual({
+      ids: [1, 2],
+      source: {
+        source: "redmine",
+        live: false,
+        asOf: expect.any(String),
+        uncachedDays: 3,
+        uncachedDates: ["2025-03-05", "2025-03-06", "2025-03-07"],
+        reason: "offline mode",
+      },
+    });
+    expect(requests).toEqual([]);
+  });
+
+  test("falls back to the cache when Redmine is unreachable", async () => {
+    await loadTimeEntries(config, 7, FROM, "2025-03-04", online);
+    redmineDown = true;
+
+    const { ids, source } = await loadEntryIds();
+    expect(ids).toEqual([1, 2]);
+    expect(source).toMatchObject({
+      live: false,
+      uncachedDays: 3,
+      reason: "unreachable (fetch failed)",
+    });
+  });
+
+  test("rethrows when Redmine is unreachable and nothing is cached", async () => {
+    redmineDown = true;
+    await expect(loadEntryIds()).rejects.toThrow("fetch failed");
+  });
+
+  test("rethrows server errors instead of using the cache", async () => {
+    await loadEntryIds();
+    // Another server has its own, empty cache
+    const broken = { ...config, redmineUrl: `${config.redmineUrl}/missing` };
+    await expect(loadTimeEntries(broken, 7, FROM, TO, online)).rejects.toThrow(
+      "Redmine API error: 404 Not Found",
+    );
+  });
+});
+
+describe("loadClockedHours", () => {
+  beforeEach(() => {
+    clockEvents = [
+      { time: "2025-03-03T08:00:00.000Z", clockIn: true },
+      { time: "2025-03-03T12:00:00.000Z", clockIn: false },
+    ];
+  });
+
+  test("queries only days not cached yet", async () => {
+    const first = await loadClockedHours(config, FROM, TO, online);
+    expect(first.clocked.hoursByDate.get(FROM)).toBe(4);
+    expect(clockQueries).toEqual([[{ from: FROM, to: TO }]]);
+
+    await loadClockedHours(config, FROM, "2025-03-10", online);
+    expect(clockQueries[1]).toEqual([{ from: "2025-03-08", to: "2025-03-10" }]);
+  });
+
+  test("falls back to the cache when the database is unreachable", async () => {
+    await loadClockedHours(config, FROM, "2025-03-04", online);
+    clockDown = true;
+
+    const { clocked, source } = await loadClockedHours(config, FROM, TO, online);
+    expect(clocked.hoursByDate.get(FROM)).toBe(4);
+    expect(source).toMatchObject({
+      source: "timelogger",
+      live: false,
+      uncachedDays: 3,
+      uncachedDates: ["2025-03-05", "2025-03-06", "2025-03-07"],
+      reason: "unreachable (Failed to connect)",
+    });
+  });
+
+  test("reads only the cache in offline mode", async () => {
+    const { source } = await loadClockedHours(config, FROM, TO, offline);
+    expect(clockQueries).toEqual([]);
+    expect(source).toMatchObject({ live: false, uncachedDays: 5, reason: "offline mode" });
+  });
+});
+
+describe("loadIssues", () => {
+  test("takes the closed state from the issue statuses on older Redmine", async () => {
+    issues = [
+      { id: 100, subject: "Open", project: { id: 1, name: "P" }, status: { id: 1, name: "New" } },
+      {
+        id: 101,
+        subject: "Done",
+        project: { id: 1, name: "P" },
+        status: { id: 5, name: "Closed" },
+      },
+    ];
+    statuses = [
+      { id: 1, name: "New" },
+      { id: 5, name: "Closed", is_closed: true },
+    ];
+
+    const loaded = await loadIssues(config, [100, 101], online);
+    expect(loaded.get(100)?.status?.is_closed).toBe(false);
+    expect(loaded.get(101)?.status?.is_closed).toBe(true);
+
+    // Issues and statuses are cached for a day
+    requests = [];
+    expect((await loadIssues(config, [101], online)).get(101)?.status?.is_closed).toBe(true);
+    expect(requests).toEqual([]);
+  });
+
+  test("keeps the closed state reported by Redmine", async () => {
+    issues = [
+      {
+        id: 100,
+        subject: "Done",
+        project: { id: 1, name: "P" },
+        status: { id: 5, name: "Closed", is_closed: true },
+      },
+    ];
+
+    expect((await loadIssues(config, [100], online)).get(100)?.status?.is_closed).toBe(true);
+    expect(requests.map((url) => url.pathname)).toEqual(["/issues.json"]);
+  });
+});
+
+describe("mergeSourceStatus", () => {
+  const live = { source: "redmine" as const, live: true, uncachedDays: 0 };
+  const stale = (asOf: string, uncachedDates: string[]) => ({
+    source: "redmine" as const,
+    live: false,
+    asOf,
+    uncachedDays: uncachedDates.length,
+    uncachedDates,
+    reason: "offline mode",
+  });
+
+  test.each([
+    ["live in both ranges", [live], [live], live],
+    ["stale in one range", [live], [stale("2026-10-01", ["a"])], stale("2026-10-01", ["a"])],
+    [
+      "stale in both ranges",
+      [stale("2026-10-05", ["a"])],
+      [stale("2026-10-01", ["b", "c"])],
+      stale("2026-10-01", ["a", "b", "c"]),
+    ],
+  ])("%s", (_name, current, earlier, expected) => {
+    expect(mergeSourceStatus(current, earlier)).toEqual([expected]);
+  });
+
+  test("keeps each source", () => {
+    const timelogger = { source: "timelogger" as const, live: true, uncachedDays: 0 };
+    expect(mergeSourceStatus([live, timelogger], [live])).toEqual([live, timelogger]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { getComparisonRange, type CompareMode } from "../lib/compare.js";
+
+describe("getComparisonRange", () => {
+  test.each<[string, CompareMode, string, string, string, string, string]>([
+    // Ranges that have already ended compare with the whole earlier range
+    ["week", "previous", "2026-10-12", "2026-10-18", "2026-10-19", "2026-10-05", "2026-10-11"],
+    [
+      "custom days",
+      "previous",
+      "2026-10-05",
+      "2026-10-14",
+      "2026-10-19",
+      "2026-09-25",
+      "2026-10-04",
+    ],
+    ["month", "previous", "2026-03-01", "2026-03-31", "2026-10-19", "2026-02-01", "2026-02-28"],
+    ["quarter", "previous", "2026-04-01", "2026-06-30", "2026-10-19", "2026-01-01", "2026-03-31"],
+    ["year", "previous", "2025-01-01", "2025-12-31", "2026-10-19", "2024-01-01", "2024-12-31"],
+    ["month", "last-year", "2026-09-01", "2026-09-30", "2026-10-19", "2025-09-01", "2025-09-30"],
+    ["leap day", "last-year", "2024-02-01", "2024-02-29", "2026-10-19", "2023-02-01", "2023-02-28"],
+    // Ongoing ranges compare up to the same point
+    ["week", "previous", "2026-10-19", "2026-10-25", "2026-10-21", "2026-10-12", "2026-10-14"],
+    ["month", "previous", "2026-10-01", "2026-10-31", "2026-10-19", "2026-09-01", "2026-09-19"],
+    ["month", "previous", "2026-03-01", "2026-03-31", "2026-03-30", "2026-02-01", "2026-02-28"],
+    ["quarter", "previous", "2026-10-01", "2026-12-31", "2026-10-19", "2026-07-01", "2026-07-19"],
+    ["month", "last-year", "2026-10-01", "2026-10-31", "2026-10-19", "2025-10-01", "2025-10-19"],
+    // Ranges entirely in the future are not shortened
+    ["month", "previous", "2026-11-01", "2026-11-30", "2026-10-19", "2026-10-01", "2026-10-31"],
+  ])("%s %s %s to %s on %s", (_name, mode, from, to, today, expectedFrom, expectedTo) => {
+    expect(getComparisonRange(from, to, mode, today)).toEqual({
+      from: expectedFrom,
+      to: expectedTo,
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import type { Config } from "../lib/config.js";
+import type { DayStats } from "../lib/output/types.js";
+import {
+  checkCompliance,
+  DEFAULT_COMPLIANCE_RULES,
+  resolveComplianceRules,
+} from "../lib/compliance.js";
+
+// Sessions as [start, end] local times (`HH:MM`) on the date, or full timestamps
+function makeDay(date: string, sessions: [string, string][], running = false): DayStats {
+  const toTimestamp = (time: string) => (time.includes("T") ? time : `${date}T${time}:00`);
+  return {
+    date,
+    dayName: "",
+    grossBooked: 0,
+    netBooked: 0,
+    clocked: 0,
+    excludedFromNet: false,
+    missing: false,
+    isWorkday: true,
+    target: 8,
+    entries: [],
+    sessions: sessions.map(([start, end], i) => ({
+      start: toTimestamp(start),
+      end: toTimestamp(end),
+      running: running && i === sessions.length - 1,
+    })),
+  };
+}
+
+function getViolations(days: DayStats[], fromDate = days[0]!.date) {
+  return checkCompliance(days, DEFAULT_COMPLIANCE_RULES, fromDate).violations.map(
+    ({ date, rule, amount }) => ({ date, rule, amount: Math.round(amount * 100) / 100 }),
+  );
+}
+
+describe("checkCompliance breaks", () => {
+  test.each<[string, [string, string][], number | null]>([
+    ["6h without a break", [["08:00", "14:00"]], null],
+    ["6.5h without a break", [["08:00", "14:30"]], 0.5],
+    [
+      "7h with a 30 min break",
+      [
+        ["08:00", "12:00"],
+        ["12:30", "15:30"],
+      ],
+      null,
+    ],
+    [
+      "7h with a 20 min break",
+      [
+        ["08:00", "12:00"],
+        ["12:20", "15:20"],
+      ],
+      0.17,
+    ],
+    [
+      "7h with two 15 min breaks",
+      [
+        ["08:00", "10:00"],
+        ["10:15", "13:00"],
+        ["13:15", "15:30"],
+      ],
+      null,
+    ],
+    [
+      "7h with 10 and 20 min breaks",
+      [
+        ["08:00", "10:00"],
+        ["10:10", "13:00"],
+        ["13:20", "15:30"],
+      ],
+      0.17,
+    ],
+    [
+      "9.5h with a 30 min break",
+      [
+        ["07:00", "12:00"],
+        ["12:30", "17:00"],
+      ],
+      0.25,
+    ],
+    [
+      "9.5h with a 45 min break",
+      [
+        ["07:00", "12:00"],
+        ["12:45", "17:15"],
+      ],
+      null,
+    ],
+  ])("%s", (_name, sessions, missing) => {
+    const violations = getViolations([makeDay("2026-10-05", sessions)]);
+    expect(violations).toEqual(
+      missing === null ? [] : [{ date: "2026-10-05", rule: "break", amount: missing }],
+    );
+  });
+
+  test("skips the break check while the clock is running", () => {
+    expect(getViolations([makeDay("2026-10-05", [["08:00", "15:00"]], true)])).toEqual([]);
+  });
+});
+
+describe("checkCompliance daily maximum", () => {
+  test.each<[string, [string, string][], number | null]>([
+    [
+      "10h",
+      [
+        ["07:00", "12:00"],
+        ["12:45", "17:45"],
+      ],
+      null,
+    ],
+    [
+      "10.5h",
+      [
+        ["07:00", "12:00"],
+        ["12:45", "18:15"],
+      ],
+      0.5,
+    ],
+  ])("%s", (_name, sessions, excess) => {
+    const violations = getViolations([makeDay("2026-10-05", sessions)]);
+    expect(violations).toEqual(
+      excess === null ? [] : [{ date: "2026-10-05", rule: "daily-max", amount: excess }],
+    );
+  });
+});
+
+describe("checkCompliance rest period", () => {
+  test.each<[string, string, string, number | null]>([
+    ["11h rest", "20:00", "07:00", null],
+    ["9h rest", "22:00", "07:00", 2],
+    ["10.5h rest", "21:00", "07:30", 0.5],
+  ])("%s", (_name, lastOut, firstIn, missing) => {
+    const days = [
+      makeDay("2026-10-05", [["16:00", lastOut]]),
+      makeDay("2026-10-06", [[firstIn, "12:00"]]),
+    ];
+    expect(getViolations(days)).toEqual(
+      missing === null ? [] : [{ date: "2026-10-06", rule: "rest", amount: missing }],
+    );
+  });
+
+  test("ignores work continuing past midnight", () => {
+    const days = [
+      makeDay("2026-10-05", [["18:00", "2026-10-06T00:00:00"]]),
+      makeDay("2026-10-06", [["00:00", "02:00"]]),
+    ];
+    expect(getViolations(days)).toEqual([]);
+  });
+
+  test("uses days before the range only as the previous day", () => {
+    const days = [
+      makeDay("2026-10-04", [["07:00", "23:00"]]),
+      makeDay("2026-10-05", [["07:00", "12:00"]]),
+    ];
+    const report = checkCompliance(days, DEFAULT_COMPLIANCE_RULES, "2026-10-05");
+    expect(report.checkedDays).toBe(1);
+    expect(report.violations.map(({ date, rule }) => ({ date, rule }))).toEqual([
+      { date: "2026-10-05", rule: "rest" },
+    ]);
+  });
+
+  test("skips days without sessions", () => {
+    const days = [
+      makeDay("2026-10-05", [["16:00", "22:00"]]),
+      makeDay("2026-10-06", []),
+      makeDay("2026-10-07", [["07:00", "12:00"]]),
+    ];
+    const report = checkCompliance(days, DEFAULT_COMPLIANCE_RULES, "2026-10-05");
+    expect(report.checkedDays).toBe(2);
+    expect(report.violations).toEqual([]);
+  });
+});
+
+describe("resolveComplianceRules", () => {
+  test("merges configured rules and sorts breaks by threshold", () => {
+    const config = {
+      compliance: {
+        maxDailyHours: 12,
+        breaks: [
+          { afterHours: 9, minutes: 45 },
+          { afterHours: 5, minutes: 20 },
+        ],
+      },
+    } as Config;
+    expect(resolveComplianceRules(config)).toEqual({
+      ...DEFAULT_COMPLIANCE_RULES,
+      maxDailyHours: 12,
+      breaks: [
+        { afterHours: 5, minutes: 20 },
+        { afterHours: 9, minutes: 45 },
+      ],
+    });
+  });
+});
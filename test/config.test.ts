@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  copyProfile,
+  getConfigPath,
+  getConfigPathSource,
+  isValidProfileName,
+  listProfiles,
+  loadSavedConfig,
+  resolveConfig,
+  saveConfigFromFlags,
+  selectProfile,
+  setConfigFile,
+  setConfigOverrides,
+  type ConfigSource,
+} from "../lib/config.js";
+
+const WORK_CONFIG = {
+  redmineApiKey: "key",
+  redmineUrl: "https://redmine.example.com",
+  mssqlServer: "db.example.com",
+  mssqlDatabase: "timelogger",
+  mssqlUser: "user",
+  mssqlPassword: "secret",
+  slackUserId: "U123",
+};
+
+let dir: string;
+let configPath: string;
+
+// Environment variables set by a test, removed again after it
+const envNames = new Set<string>();
+
+function setEnv(values: Record<string, string>): void {
+  for (const [name, value] of Object.entries(values)) {
+    envNames.add(name);
+    process.env[name] = value;
+  }
+}
+
+function writeConfigFile(content: unknown): void {
+  writeFileSync(configPath, JSON.stringify(content));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "whstats-config-"));
+  configPath = join(dir, "config.json");
+  setConfigFile(configPath);
+  selectProfile(undefined);
+});
+
+afterEach(() => {
+  setConfigFile(undefined);
+  selectProfile(undefined);
+  setConfigOverrides({});
+  for (const name of envNames) delete process.env[name];
+  envNames.clear();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("profiles", () => {
+  test.each([
+    ["work", true],
+    ["client-a.v2", true],
+    ["with space", false],
+    ["", false],
+    ["constructor", false],
+    ["toString", false],
+    ["__proto__", false],
+    ["hasOwnProperty", false],
+  ])("%p is valid: %p", (name, expected) => {
+    expect(isValidProfileName(name)).toBe(expected);
+  });
+
+  test("does not find Object.prototype members as profiles", () => {
+    writeConfigFile({ defaultProfile: "work", profiles: { work: WORK_CONFIG } });
+    selectProfile("constructor");
+    expect(loadSavedConfig()).toBeNull();
+    expect(() => copyProfile("toString", "copy")).toThrow('Profile "toString" does not exist');
+  });
+
+  test("copies a profile to a new name", () => {
+    writeConfigFile({ defaultProfile: "work", profiles: { work: WORK_CONFIG } });
+    copyProfile("work", "home");
+    expect(listProfiles()).toEqual({ names: ["work", "home"], defaultProfile: "work" });
+    expect(() => copyProfile("work", "home")).toThrow('Profile "home" already exists');
+  });
+
+  test("keeps a profile named __proto__ from the file as a plain profile", () => {
+    writeFileSync(
+      configPath,
+      `{"defaultProfile":"work","profiles":{"work":${JSON.stringify(WORK_CONFIG)},"__proto__":{}}}`,
+    );
+    copyProfile("work", "home");
+    const saved = JSON.parse(readFileSync(configPath, "utf-8"));
+    expect(Object.keys(saved.profiles)).toEqual(["work", "__proto__", "home"]);
+  });
+
+  test("reads a config from before profiles as the default profile", () => {
+    writeConfigFile(WORK_CONFIG);
+    expect(listProfiles()).toEqual({ names: ["default"], defaultProfile: "default" });
+    expect(loadSavedConfig()?.redmineUrl).toBe(WORK_CONFIG.redmineUrl);
+  });
+});
+
+describe("resolveConfig", () => {
+  test("returns null without a config file or overrides", () => {
+    expect(resolveConfig()).toBeNull();
+  });
+
+  test.each<[string, Record<string, string>, Record<string, string>, number, ConfigSource]>([
+    ["the file", {}, {}, 8, "file"],
+    ["the environment over the file", { WHSTATS_TARGET_HOURS_PER_DAY: "6" }, {}, 6, "env"],
+    [
+      "flags over the environment",
+      { WHSTATS_TARGET_HOURS_PER_DAY: "6" },
+      { "target-hours-per-day": "4" },
+      4,
+      "flag",
+    ],
+    ["flags over the file", {}, { "target-hours-per-day": "4" }, 4, "flag"],
+  ])("takes a setting from %s", (_name, env, flags, expected, source) => {
+    writeConfigFile({
+      defaultProfile: "work",
+      profiles: { work: { ...WORK_CONFIG, targetHoursPerDay: 8 } },
+    });
+    setEnv(env);
+    setConfigOverrides(flags);
+
+    const resolved = resolveConfig()!;
+    expect(resolved.config.targetHoursPerDay).toBe(expected);
+    expect(resolved.sources.targetHoursPerDay).toBe(source);
+    expect(resolved.sources.redmineUrl).toBe("file");
+  });
+
+  test("resolves a config from overrides alone", () => {
+    setEnv({ WHSTATS_REDMINE_URL: "https://env.example.com/" });
+    setConfigOverrides({ "redmine-api-key": "flag-key" });
+    expect(resolveConfig()).toMatchObject({
+      config: { redmineUrl: "https://env.example.com", redmineApiKey: "flag-key" },
+      sources: { redmineUrl: "env", redmineApiKey: "flag" },
+    });
+  });
+
+  test("ignores empty environment variables", () => {
+    writeConfigFile(WORK_CONFIG);
+    setEnv({ WHSTATS_REDMINE_URL: "" });
+    expect(resolveConfig()?.sources.redmineUrl).toBe("file");
+  });
+
+  test("uses the profile from WHSTATS_PROFILE unless one is selected", () => {
+    writeConfigFile({
+      defaultProfile: "work",
+      profiles: { work: WORK_CONFIG, home: { ...WORK_CONFIG, slackUserId: "U456" } },
+    });
+    setEnv({ WHSTATS_PROFILE: "home" });
+    expect(resolveConfig()?.config.slackUserId).toBe("U456");
+    selectProfile("work");
+    expect(resolveConfig()?.config.slackUserId).toBe("U123");
+  });
+
+  test("names the invalid setting", () => {
+    setEnv({ WHSTATS_TARGET_HOURS_PER_DAY: "lots" });
+    expect(() => resolveConfig()).toThrow(
+      "Invalid value for WHSTATS_TARGET_HOURS_PER_DAY: must be a positive number",
+    );
+    expect(() => setConfigOverrides({ "holiday-state": "XX" })).toThrow(
+      "Invalid value for --holiday-state: unknown state",
+    );
+  });
+});
+
+describe("getConfigPath", () => {
+  test("prefers --config-file over WHSTATS_CONFIG_FILE", () => {
+    const envPath = join(dir, "env.json");
+    setConfigFile(undefined);
+    setEnv({ WHSTATS_CONFIG_FILE: envPath });
+    expect([getConfigPath(), getConfigPathSource()]).toEqual([envPath, "env"]);
+    setConfigFile(configPath);
+    expect([getConfigPath(), getConfigPathSource()]).toEqual([configPath, "flag"]);
+  });
+});
+
+describe("saveConfigFromFlags", () => {
+  test("saves flags into the profile but not environment overrides", () => {
+    writeConfigFile({ defaultProfile: "work", profiles: { work: WORK_CONFIG } });
+    setEnv({ WHSTATS_MSSQL_PASSWORD: "from-env" });
+    setConfigOverrides({ "target-hours-per-day": "7.5", "redmine-api-key": "new-key" });
+
+    saveConfigFromFlags();
+    const saved = JSON.parse(readFileSync(configPath, "utf-8")).profiles.work;
+    expect(saved).toMatchObject({
+      ...WORK_CONFIG,
+      redmineApiKey: "new-key",
+      targetHoursPerDay: 7.5,
+    });
+  });
+
+  test("requires all required settings", () => {
+    setConfigOverrides({ "redmine-url": "https://redmine.example.com" });
+    expect(() => saveConfigFromFlags()).toThrow(
+      "Missing required settings: --redmine-api-key, --mssql-server",
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { render, renderReport, type CsvOptions } from "../lib/output/csv.js";
+import type { DayStats, StatsData, SummaryData } from "../lib/output/types.js";
+import type { Report } from "../lib/report.js";
+
+const CSV: CsvOptions = { delimiter: ",", decimalSeparator: "." };
+const BOM = "\uFEFF";
+
+function makeStats(comments: string[], hours = 1.5): StatsData {
+  const day: DayStats = {
+    date: "2026-10-19",
+    dayName: "Mon",
+    grossBooked: hours,
+    netBooked: hours,
+    clocked: 8,
+    excludedFromNet: false,
+    missing: false,
+    isWorkday: true,
+    target: 8,
+    entries: comments.map((comments, i) => ({
+      id: i + 1,
+      project: { id: 1, name: "Project" },
+      issue: { id: 100 },
+      user: { id: 1, name: "User" },
+      activity: { id: 9, name: "Development" },
+      hours,
+      comments,
+      spent_on: "2026-10-19",
+      created_on: "2026-10-19T12:00:00Z",
+      updated_on: "2026-10-19T12:00:00Z",
+    })),
+    sessions: [],
+  };
+  return { days: [day], summary: {} as SummaryData, issues: new Map() };
+}
+
+// The comment (last) field of the single entry row, which may span several lines
+function getCommentField(comment: string, options = CSV): string {
+  const document = render(makeStats([comment]), options);
+  const row = document.slice(document.indexOf("\n") + 1);
+  const { delimiter } = options;
+  const prefix = `2026-10-19${delimiter}Project${delimiter}100${delimiter}Development${delimiter}1.5${delimiter}`;
+  expect(row.startsWith(prefix)).toBe(true);
+  return row.slice(prefix.length);
+}
+
+describe("render", () => {
+  test("starts with a byte order mark and a header line", () => {
+    const lines = render(makeStats(["Work"]), CSV).split("\n");
+    expect(lines).toEqual([
+      `${BOM}date,project,issue,activity,hours,comment`,
+      "2026-10-19,Project,100,Development,1.5,Work",
+    ]);
+  });
+
+  test("writes one row per day in brief mode", () => {
+    expect(render(makeStats(["Work"]), CSV, true)).toBe(
+      `${BOM}date,weekday,gross_booked,net_booked,clocked,excluded_from_net\n` +
+        "2026-10-19,Mon,1.5,1.5,8,false",
+    );
+  });
+
+  test.each([
+    ["plain text", "Review", "Review"],
+    ["the delimiter", "Review, fixes", '"Review, fixes"'],
+    ["quotes", 'Fix "login"', '"Fix ""login"""'],
+    ["a line break", "Line 1\nLine 2", '"Line 1\nLine 2"'],
+    ["umlauts", "Überstunden", "Überstunden"],
+  ])("quotes a comment with %s", (_name, comment, expected) => {
+    expect(getCommentField(comment)).toBe(expected);
+  });
+
+  test.each([
+    ["=", "=SUM(A1:A9)", "'=SUM(A1:A9)"],
+    ["+", "+49 89 1234", "'+49 89 1234"],
+    ["-", "-fix", "'-fix"],
+    ["@", "@mention", "'@mention"],
+    ["= and the delimiter", '=HYPERLINK("x","y")', `"'=HYPERLINK(""x"",""y"")"`],
+  ])("neutralises a comment starting with %s", (_name, comment, expected) => {
+    expect(getCommentField(comment)).toBe(expected);
+  });
+
+  test("neutralises a leading tab in TSV and quotes it", () => {
+    expect(getCommentField("\tcmd", { delimiter: "\t", decimalSeparator: "." })).toBe(`"'\tcmd"`);
+  });
+
+  test("writes negative numbers as numbers", () => {
+    const row = render(makeStats(["Correction"], -1.25), CSV).split("\n")[1];
+    expect(row).toBe("2026-10-19,Project,100,Development,-1.25,Correction");
+  });
+
+  test("uses the decimal separator and quotes it when it is the delimiter", () => {
+    const semicolon = render(makeStats(["Work"]), { delimiter: ";", decimalSeparator: "," });
+    expect(semicolon.split("\n")[1]).toBe("2026-10-19;Project;100;Development;1,5;Work");
+    const comma = render(makeStats(["Work"]), { delimiter: ",", decimalSeparator: "," });
+    expect(comma.split("\n")[1]).toBe('2026-10-19,Project,100,Development,"1,5",Work');
+  });
+});
+
+describe("renderReport", () => {
+  test("neutralises group names and starts with a byte order mark", () => {
+    const report = {
+      dimensions: ["project"],
+      rows: [{ groups: [{ dimension: "project", name: "=cmd" }], hours: 2, share: 100, days: 1 }],
+    } as unknown as Report;
+    expect(renderReport(report, CSV)).toBe(`${BOM}project,hours,share,days\n'=cmd,2,100,1`);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { formatDate } from "../lib/utils.js";
+import {
+  getEasterSunday,
+  getHolidaysInRange,
+  getPublicHolidays,
+  isValidState,
+} from "../lib/holidays.js";
+
+describe("getEasterSunday", () => {
+  test.each([
+    [2000, "2000-04-23"],
+    [2019, "2019-04-21"],
+    [2024, "2024-03-31"],
+    [2025, "2025-04-20"],
+    [2026, "2026-04-05"],
+    [2038, "2038-04-25"],
+  ])("%i", (year, expected) => {
+    expect(formatDate(getEasterSunday(year))).toBe(expected);
+  });
+});
+
+describe("getPublicHolidays", () => {
+  test.each([
+    // Easter-based holidays
+    [2026, undefined, "2026-04-03", "Karfreitag"],
+    [2026, undefined, "2026-04-06", "Ostermontag"],
+    [2026, undefined, "2026-05-14", "Christi Himmelfahrt"],
+    [2026, undefined, "2026-05-25", "Pfingstmontag"],
+    // Regional holidays, state codes are case-insensitive
+    [2026, "BY", "2026-01-06", "Heilige Drei Könige"],
+    [2026, "by", "2026-06-04", "Fronleichnam"],
+    [2026, "BB", "2026-04-05", "Ostersonntag"],
+    [2026, "TH", "2026-09-20", "Weltkindertag"],
+    [2026, "HH", "2026-10-31", "Reformationstag"],
+    // Buß- und Bettag is the Wednesday before November 23rd
+    [2023, "SN", "2023-11-22", "Buß- und Bettag"],
+    [2026, "SN", "2026-11-18", "Buß- und Bettag"],
+    // Reformation anniversary, nationwide in 2017 only
+    [2017, "BY", "2017-10-31", "Reformationstag"],
+  ])("%i %s %s is %s", (year, state, date, name) => {
+    expect(getPublicHolidays(year, state).get(date)).toBe(name);
+  });
+
+  test.each([
+    // Regional holidays need a state
+    [2026, undefined, "2026-01-06"],
+    [2026, "NW", "2026-01-06"],
+    [2026, "BE", "2026-06-04"],
+    // Rules with a start or end year
+    [2018, "BE", "2018-03-08"],
+    [2017, "HH", "2017-10-31"],
+    [2018, "BY", "2018-10-31"],
+    [2026, "BY", "2026-11-18"],
+  ])("%i %s %s is not a holiday", (year, state, date) => {
+    expect(getPublicHolidays(year, state).has(date)).toBe(false);
+  });
+});
+
+describe("getHolidaysInRange", () => {
+  test("limits holidays to the range across years", () => {
+    const holidays = getHolidaysInRange("2025-12-24", "2026-01-06", "BW");
+    expect([...holidays.keys()].sort()).toEqual([
+      "2025-12-25",
+      "2025-12-26",
+      "2026-01-01",
+      "2026-01-06",
+    ]);
+  });
+
+  test.each([
+    // Yearly custom holidays repeat in every year of the range
+    [{ date: "12-24", name: "Heiligabend" }, "2025-12-24", "Heiligabend"],
+    [{ date: "12-24", name: "Heiligabend" }, "2026-12-24", "Heiligabend"],
+    // One-off custom holidays only apply to their year
+    [{ date: "2026-06-12" }, "2026-06-12", "Holiday"],
+    [{ date: "2025-06-12" }, "2026-06-12", undefined],
+    // Custom holidays override public holiday names
+    [{ date: "05-01", name: "Closed" }, "2026-05-01", "Closed"],
+  ])("%o on %s", (custom, date, expected) => {
+    expect(getHolidaysInRange("2025-01-01", "2026-12-31", undefined, [custom]).get(date)).toBe(
+      expected,
+    );
+  });
+
+  test("returns nothing for invalid dates", () => {
+    expect(getHolidaysInRange("2026-13-01", "2026-12-31", "BY").size).toBe(0);
+  });
+});
+
+describe("isValidState", () => {
+  test.each([
+    ["BY", true],
+    ["nw", true],
+    ["XX", false],
+    ["toString", false],
+  ])("%s", (state, expected) => {
+    expect(isValidState(state)).toBe(expected);
+  });
+});
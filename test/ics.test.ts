@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import { render } from "../lib/output/ics.js";
+import type { DayStats, StatsData, SummaryData } from "../lib/output/types.js";
+
+const encoder = new TextEncoder();
+
+function makeStats(comments: string, subject = "Issue"): StatsData {
+  const day: DayStats = {
+    date: "2026-10-19",
+    dayName: "Mon",
+    grossBooked: 1.5,
+    netBooked: 1.5,
+    clocked: 4,
+    excludedFromNet: false,
+    missing: false,
+    isWorkday: true,
+    target: 8,
+    entries: [
+      {
+        id: 42,
+        project: { id: 1, name: "Project" },
+        issue: { id: 100 },
+        user: { id: 1, name: "User" },
+        activity: { id: 9, name: "Development" },
+        hours: 1.5,
+        comments,
+        spent_on: "2026-10-19",
+        created_on: "2026-10-19T12:00:00Z",
+        updated_on: "2026-10-19T12:00:00Z",
+      },
+    ],
+    sessions: [
+      { start: "2026-10-19T07:00:00.000Z", end: "2026-10-19T11:00:00.000Z", running: false },
+    ],
+  };
+  const issues = new Map([[100, { id: 100, subject, project: { id: 1, name: "Project" } }]]);
+  return { days: [day], summary: {} as SummaryData, issues };
+}
+
+// Content lines with folded continuation lines joined again
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+function getProperty(ics: string, name: string): string | undefined {
+  return unfold(ics).find((line) => line.startsWith(`${name}:`));
+}
+
+describe("render", () => {
+  test("ends every line with CRLF", () => {
+    const ics = render(makeStats("Line 1\nLine 2"), { bookings: "all-day" });
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  test("writes clock sessions and all-day bookings", () => {
+    const lines = unfold(render(makeStats("Work"), { bookings: "all-day" }));
+    expect(lines).toContain("DTSTART:20261019T070000Z");
+    expect(lines).toContain("DTEND:20261019T110000Z");
+    expect(lines).toContain("SUMMARY:Clocked in");
+    expect(lines).toContain("UID:entry-42@whstats");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261019");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261020");
+  });
+
+  test("stacks bookings from the first clock-in", () => {
+    const lines = unfold(render(makeStats("Work"), { bookings: "stacked" }));
+    expect(lines.filter((line) => line.startsWith("DTSTART:"))).toEqual([
+      "DTSTART:20261019T070000Z",
+      "DTSTART:20261019T070000Z",
+    ]);
+    expect(lines).toContain("DTEND:20261019T083000Z");
+  });
+
+  test("leaves out bookings unless requested", () => {
+    expect(render(makeStats("Work"))).not.toContain("UID:entry-42@whstats");
+  });
+
+  test.each([
+    ["a comma", "a,b", "a\\,b"],
+    ["a semicolon", "a;b", "a\\;b"],
+    ["a backslash", "C:\\temp", "C:\\\\temp"],
+    ["a line break", "a\nb", "a\\nb"],
+    ["a CRLF line break", "a\r\nb", "a\\nb"],
+    ["all of them", "x\\,;", "x\\\\\\,\\;"],
+  ])("escapes %s in TEXT values", (_name, comment, expected) => {
+    const ics = render(makeStats(comment), { bookings: "all-day" });
+    expect(getProperty(ics, "DESCRIPTION")).toEndWith(`\\nComment: ${expected}`);
+  });
+
+  test.each([
+    ["ASCII", "x".repeat(200)],
+    ["umlauts", "Ü".repeat(200)],
+    ["mixed text", "Größere Änderungen, übernommen; ".repeat(8)],
+    ["emoji", "✅🎉".repeat(60)],
+  ])("folds %s at 75 octets", (_name, subject) => {
+    const ics = render(makeStats("Work", subject), { bookings: "all-day" });
+    const physical = ics.split("\r\n").slice(0, -1);
+
+    for (const line of physical) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    // Lines are only folded where the next character would not fit (at most 4 octets)
+    const summary = physical.findIndex((line) => line.startsWith("SUMMARY:1.50h #100"));
+    const continuations = physical.slice(summary + 1).findIndex((line) => !line.startsWith(" "));
+    expect(continuations).toBeGreaterThan(0);
+    for (const line of physical.slice(summary, summary + continuations)) {
+      expect(encoder.encode(line).length).toBeGreaterThan(71);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:1.50h #100 ${subject.replace(/[,;]/g, "\\$&")}`);
+  });
+});
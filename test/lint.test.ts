@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import type { Config } from "../lib/config.js";
+import { lintEntries, resolveLintSettings, type LintRuleName } from "../lib/lint.js";
+import type { DayStats } from "../lib/output/types.js";
+import { renderLint } from "../lib/output/json.js";
+import type { TimeEntry } from "../lib/redmine.js";
+import { createWorkCalendar } from "../lib/schedule.js";
+
+const config = { holidayState: "BY", lint: { disabledRules: ["duplicate"] } } as Config;
+
+function makeDay(date: string, entries: Partial<TimeEntry>[]): DayStats {
+  return {
+    date,
+    dayName: "",
+    grossBooked: 0,
+    netBooked: 0,
+    clocked: 0,
+    excludedFromNet: false,
+    missing: false,
+    isWorkday: true,
+    target: 8,
+    entries: entries.map((entry, i) => ({
+      id: i + 1,
+      project: { id: 1, name: "Project" },
+      issue: { id: 100 },
+      user: { id: 1, name: "User" },
+      activity: { id: 9, name: "Development" },
+      hours: 1,
+      comments: "Work",
+      spent_on: date,
+      created_on: `${date}T12:00:00Z`,
+      updated_on: `${date}T12:00:00Z`,
+      ...entry,
+    })),
+    sessions: [],
+  };
+}
+
+function getRules(day: DayStats, lintConfig: Config = config): LintRuleName[] {
+  const calendar = createWorkCalendar(lintConfig, day.date, day.date);
+  const result = lintEntries(
+    [day],
+    resolveLintSettings(lintConfig),
+    calendar,
+    new Map(),
+    new Set(),
+  );
+  return result.findings.map((finding) => finding.rule);
+}
+
+describe("lintEntries", () => {
+  test.each<[string, string, Partial<TimeEntry>, LintRuleName[]]>([
+    ["a clean entry", "2026-10-19", {}, []],
+    ["an empty comment", "2026-10-19", { comments: " " }, ["empty-comment"]],
+    ["no issue", "2026-10-19", { issue: undefined }, ["missing-issue"]],
+    ["an odd increment", "2026-10-19", { hours: 0.3 }, ["increment"]],
+    ["a Saturday", "2026-10-17", {}, ["weekend"]],
+    ["a Sunday", "2026-10-18", {}, ["weekend"]],
+    ["a holiday on a Saturday", "2026-10-03", {}, ["holiday"]],
+    ["a holiday on a weekday", "2026-01-06", {}, ["holiday"]],
+  ])("flags %s", (_name, date, entry, expected) => {
+    expect(getRules(makeDay(date, [entry]))).toEqual(expected);
+  });
+
+  test("skips weekends the work schedule expects work on", () => {
+    const saturdays = {
+      ...config,
+      workSchedule: [{ effectiveFrom: "2026-01-01", hours: { mon: 8, sat: 4 } }],
+    } as Config;
+    expect(getRules(makeDay("2026-10-17", [{}]), saturdays)).toEqual([]);
+  });
+
+  test("skips disabled rules", () => {
+    const disabled = { ...config, lint: { disabledRules: ["holiday"] } } as Config;
+    expect(getRules(makeDay("2026-10-03", [{}]), disabled)).toEqual([]);
+  });
+});
+
+describe("renderLint", () => {
+  test("outputs the rule settings, meta and findings", () => {
+    const day = makeDay("2026-10-03", [{}]);
+    const settings = resolveLintSettings(config);
+    const result = lintEntries(
+      [day],
+      settings,
+      createWorkCalendar(config, day.date, day.date),
+      new Map(),
+      new Set(),
+    );
+    const output = JSON.parse(renderLint(result, settings, "2026-10-01", "2026-10-31"));
+
+    expect(Object.keys(output)).toEqual(["meta", "settings", "checkedEntries", "findings"]);
+    expect(output.meta.dateRange).toEqual({ from: "2026-10-01", to: "2026-10-31" });
+    expect(output.settings).toEqual({
+      rules: ["empty-comment", "missing-issue", "increment", "weekend", "holiday", "closed-issue"],
+      increment: 0.25,
+    });
+    expect(output.checkedEntries).toBe(1);
+    expect(output.findings).toEqual([
+      {
+        rule: "holiday",
+        date: "2026-10-03",
+        entryId: 1,
+        issueId: 100,
+        hours: 1,
+        message: "Booked on a holiday (Tag der Deutschen Einheit)",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Config } from "../lib/config.js";
+import { createWorkCalendar } from "../lib/schedule.js";
+import { prepareStatsData } from "../lib/stats.js";
+
+// West of UTC, parsing `YYYY-MM-DD` as UTC midnight gives the previous day
+const timeZone = process.env.TZ;
+beforeAll(() => {
+  process.env.TZ = "America/Los_Angeles";
+});
+afterAll(() => {
+  process.env.TZ = timeZone;
+});
+
+describe("prepareStatsData", () => {
+  test("names the weekday of each date in local time", () => {
+    const config = { holidayState: "BY" } as Config;
+    const { days } = prepareStatsData(
+      [],
+      new Map(),
+      new Map(),
+      "2026-10-19",
+      false,
+      8,
+      createWorkCalendar(config, "2026-10-05", "2026-10-11"),
+      new Set(),
+      "2026-10-05",
+      "2026-10-11",
+    );
+    expect(days.map((day) => [day.date, day.dayName])).toEqual([
+      ["2026-10-05", "Mon"],
+      ["2026-10-06", "Tue"],
+      ["2026-10-07", "Wed"],
+      ["2026-10-08", "Thu"],
+      ["2026-10-09", "Fri"],
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { getIsoWeek, getIsoWeekRange, parseDate } from "../lib/utils.js";
+
+describe("getIsoWeek", () => {
+  test.each([
+    ["2026-10-19", 2026, 43],
+    // Years starting on Thursday have 53 weeks
+    ["2026-01-01", 2026, 1],
+    ["2026-12-31", 2026, 53],
+    ["2027-01-03", 2026, 53],
+    ["2027-01-04", 2027, 1],
+    // Late December can belong to week 1 of the next year
+    ["2024-12-29", 2024, 52],
+    ["2024-12-30", 2025, 1],
+    ["2025-12-28", 2025, 52],
+    ["2025-12-29", 2026, 1],
+    // Early January can belong to the last week of the previous year
+    ["2021-01-03", 2020, 53],
+    ["2021-01-04", 2021, 1],
+    ["2022-01-02", 2021, 52],
+    ["2023-01-01", 2022, 52],
+  ])("%s is %i-W%i", (date, year, week) => {
+    expect(getIsoWeek(parseDate(date)!)).toEqual({ year, week });
+  });
+});
+
+describe("getIsoWeekRange", () => {
+  test.each([
+    [2026, 1, { from: "2025-12-29", to: "2026-01-04" }],
+    [2026, 43, { from: "2026-10-19", to: "2026-10-25" }],
+    [2026, 53, { from: "2026-12-28", to: "2027-01-03" }],
+    [2020, 53, { from: "2020-12-28", to: "2021-01-03" }],
+    [2025, 53, null],
+    [2026, 0, null],
+    [2026, 54, null],
+  ])("%i-W%i", (year, week, expected) => {
+    expect(getIsoWeekRange(year, week)).toEqual(expected);
+  });
+});